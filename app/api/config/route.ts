@@ -0,0 +1,6 @@
+import { publicConfig } from '../../../lib/server-config'
+
+// The limits clients should validate against before uploading
+export async function GET() {
+  return Response.json(publicConfig())
+}
@@ -1,23 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { spawn } from 'child_process'
-import { readFile, unlink, access } from 'fs/promises'
-import { join } from 'path'
+import { readFile, unlink, stat } from 'fs/promises'
+import { jobService, JobStatus, STAGING_BUCKET } from '../../../../lib/job-service'
+import { runFfmpegJob, FfmpegJobResult } from '../../../../lib/ffmpeg-job'
+import { ffmpegQueue } from '../../../../lib/work-queue'
+import { stagedInputPath, stagingOutputPath, StagingError } from '../../../../lib/staging-store'
 
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { fileName, format, quality } = data
+    const { fileName, format, quality, async: asyncMode } = data
     
     if (!fileName || !format || !quality) {
       return NextResponse.json({ error: 'Missing required parameters' }, { status: 400 })
     }
     
-    const inputPath = join('/tmp', fileName)
-    const outputPath = join('/tmp', `output-${Date.now()}.${format}`)
+    // fileName comes from the client, so only a name the upload routes issued is accepted
+    const inputPath = stagedInputPath(fileName, 'audio')
+    const outputPath = stagingOutputPath(format, 'audio')
     
     // Check if the file exists
+    let inputSize: number
     try {
-      await access(inputPath)
+      inputSize = (await stat(inputPath)).size
     } catch (error) {
       return NextResponse.json({ error: 'File not found or expired' }, { status: 404 })
     }
@@ -29,126 +33,68 @@ export async function POST(request: NextRequest) {
     
     args.push(outputPath)
     
-    // Create a unique job ID for this conversion
-    const jobId = Date.now().toString()
-    let progressData = { 
-      jobId, 
-      progress: 0,
-      status: 'processing',
-      startTime: Date.now(),
-      estimatedTimeRemaining: null
+    // Refuse new work while the queue is saturated; the upload stays staged for a retry
+    if (ffmpegQueue.isFull()) {
+      return NextResponse.json({
+        error: 'Server is busy with other conversions. Please retry shortly.'
+      }, { status: 503, headers: { 'Retry-After': ffmpegQueue.retryAfter.toString() } })
     }
-    
-    // Store progress in memory (in production, use Redis or similar)
-    global.conversionProgress = global.conversionProgress || {}
-    global.conversionProgress[jobId] = progressData
-    
-    return new Promise<NextResponse>((resolve) => {
-      // Use system FFmpeg (needs to be installed locally)
-      const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg'
-      console.log(`Using FFmpeg at: ${ffmpegPath}`)
-      
-      try {
-        const ffmpeg = spawn(ffmpegPath, args)
-        
-        // Handle spawn errors
-        ffmpeg.on('error', (err) => {
-          console.error('FFmpeg spawn error:', err)
-          resolve(NextResponse.json({ error: 'FFmpeg process error: ' + err.message }, { status: 500 }))
-        })
-        
-        // Track if we've found the duration
-        let totalDuration = 30 // Default assumption (30 seconds)
-        let durationFound = false
-        
-        // Capture stderr for progress tracking
-        ffmpeg.stderr.on('data', (data) => {
-          const output = data.toString()
-          
-          // First try to find duration in the output
-          if (!durationFound) {
-            const durationMatch = output.match(/Duration: ([\\d:.]+)/)
-            if (durationMatch && durationMatch[1]) {
-              const durationParts = durationMatch[1].split(':')
-              totalDuration = 
-                parseFloat(durationParts[0]) * 3600 + 
-                parseFloat(durationParts[1]) * 60 + 
-                parseFloat(durationParts[2])
-              durationFound = true
-              console.log(`Detected audio duration: ${totalDuration} seconds`)
-            }
-          }
-          
-          // Look for time=00:00:00.00 pattern in FFmpeg output
-          const timeMatch = output.match(/time=([\\d:.]+)/)
-          if (timeMatch && timeMatch[1]) {
-            const timeParts = timeMatch[1].split(':')
-            const seconds = 
-              parseFloat(timeParts[0]) * 3600 + 
-              parseFloat(timeParts[1]) * 60 + 
-              parseFloat(timeParts[2])
-            
-            // Calculate progress based on detected duration
-            const progress = Math.min(99, Math.round((seconds / totalDuration) * 100))
-            
-            // Calculate estimated time remaining
-            if (progress > 0) {
-              const elapsedMs = Date.now() - progressData.startTime
-              const estimatedTotalMs = (elapsedMs / progress) * 100
-              const estimatedRemainingMs = Math.max(0, estimatedTotalMs - elapsedMs)
-              
-              // Convert to seconds and round
-              const estimatedRemainingSeconds = Math.round(estimatedRemainingMs / 1000)
-              
-              // Update progress data
-              progressData.progress = progress
-              progressData.estimatedTimeRemaining = estimatedRemainingSeconds
-              progressData.status = 'processing'
-            } else {
-              progressData.progress = progress
-              progressData.status = 'processing'
-            }
-            
-            global.conversionProgress[jobId] = progressData
-          }
-        })
-        
-        ffmpeg.on('close', async (code) => {
-          try {
-            if (code === 0) {
-              const outputBuffer = await readFile(outputPath)
-              await unlink(inputPath)
-              await unlink(outputPath)
-              
-              // Set progress to 100% when complete
-              progressData.progress = 100
-              progressData.status = 'completed'
-              global.conversionProgress[jobId] = progressData
-              
-              resolve(new NextResponse(outputBuffer, {
-                headers: { 
-                  'Content-Type': `audio/${format}`,
-                  'Content-Length': outputBuffer.length.toString(),
-                  'X-Job-Id': jobId
-                }
-              }))
-            } else {
-              await unlink(inputPath).catch(() => {})
-              await unlink(outputPath).catch(() => {})
-              resolve(NextResponse.json({ error: 'Audio conversion failed' }, { status: 500 }))
-            }
-          } catch (error) {
-            resolve(NextResponse.json({ error: 'File processing error' }, { status: 500 }))
-          }
-        })
-      } catch (error) {
-        console.error('Failed to spawn FFmpeg:', error)
-        resolve(NextResponse.json({ 
-          error: 'FFmpeg not found. Please install FFmpeg on your system.'
-        }, { status: 500 }))
-      }
+
+    // Register the conversion so its progress can be polled
+    const job = await jobService.createJob({
+      inputS3Location: { bucket: STAGING_BUCKET, key: fileName, size: inputSize },
+      format,
+      quality
+    })
+    const jobId = job.jobId
+    await jobService.updateJob(jobId, { status: JobStatus.PROCESSING, stage: 'processing', estimatedTimeRemaining: null })
+
+    // Waits for a free FFmpeg slot; progress reports the queue position meanwhile
+    const conversion = ffmpegQueue.run(() => runFfmpegJob({
+      jobId,
+      args,
+      inputPath,
+      outputPath,
+      contentType: `audio/${format}`,
+      defaultDuration: 30,
+      label: 'Audio'
+    }), jobId).catch(async (error): Promise<FfmpegJobResult> => {
+      // Cancelled before a slot became free, so FFmpeg never touched the input
+      await unlink(inputPath).catch(() => {})
+      return { success: false, cancelled: true, error: error.message }
     })
+
+    // In async mode the client polls /api/progress and downloads from /api/jobs/[jobId]/result
+    if (asyncMode) {
+      return NextResponse.json({ jobId }, {
+        status: 202,
+        headers: { 'X-Job-Id': jobId }
+      })
+    }
+
+    const result = await conversion
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.cancelled ? 409 : 500 })
+    }
+
+    try {
+      const outputBuffer = await readFile(outputPath)
+      await unlink(outputPath)
+
+      return new NextResponse(outputBuffer, {
+        headers: {
+          'Content-Type': `audio/${format}`,
+          'Content-Length': outputBuffer.length.toString(),
+          'X-Job-Id': jobId
+        }
+      })
+    } catch (error) {
+      return NextResponse.json({ error: 'File processing error' }, { status: 500 })
+    }
   } catch (error) {
+    if (error instanceof StagingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Audio conversion error:', error)
     return NextResponse.json({ error: 'Audio conversion failed' }, { status: 500 })
   }
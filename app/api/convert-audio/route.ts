@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { spawn } from 'child_process'
 import { writeFile, unlink, readFile } from 'fs/promises'
-import { join } from 'path'
+import { basename } from 'path'
+import { jobService, JobStatus, STAGING_BUCKET } from '../../../lib/job-service'
+import { runFfmpegJob, FfmpegJobResult } from '../../../lib/ffmpeg-job'
+import { ffmpegQueue } from '../../../lib/work-queue'
+import { stagingPath, stagedFileName, stagingOutputPath, StagingError } from '../../../lib/staging-store'
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,8 +17,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No audio file provided' }, { status: 400 })
     }
 
-    const inputPath = join('/tmp', `input-${Date.now()}.${file.name.split('.').pop()}`)
-    const outputPath = join('/tmp', `output-${Date.now()}.${format}`)
+    // Refuse new work while the queue is saturated
+    if (ffmpegQueue.isFull()) {
+      return NextResponse.json({
+        error: 'Server is busy with other conversions. Please retry shortly.'
+      }, { status: 503, headers: { 'Retry-After': ffmpegQueue.retryAfter.toString() } })
+    }
+
+    const inputPath = stagingPath(stagedFileName(file.name, 'audio'))
+    const outputPath = stagingOutputPath(format, 'audio')
 
     await writeFile(inputPath, Buffer.from(await file.arrayBuffer()))
 
@@ -26,105 +36,53 @@ export async function POST(request: NextRequest) {
 
     args.push(outputPath)
 
-    // Create a unique job ID for this conversion
-    const jobId = Date.now().toString()
-    let progressData = { jobId, progress: 0, status: 'processing' }
-
-    // Store progress in memory (in production, use Redis or similar)
-    global.conversionProgress = global.conversionProgress || {}
-    global.conversionProgress[jobId] = progressData
-
-    return new Promise<NextResponse>((resolve) => {
-      // Use system FFmpeg (needs to be installed locally)
-      const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg'
-      console.log(`Using FFmpeg at: ${ffmpegPath}`)
-
-      try {
-        const ffmpeg = spawn(ffmpegPath, args)
-
-        // Handle spawn errors
-        ffmpeg.on('error', (err) => {
-          console.error('FFmpeg spawn error:', err)
-          resolve(NextResponse.json({ error: 'FFmpeg process error: ' + err.message }, { status: 500 }))
-        })
-
-        // Track if we've found the duration
-        let totalDuration = 30 // Default assumption (30 seconds)
-        let durationFound = false
-
-        // Capture stderr for progress tracking
-        ffmpeg.stderr.on('data', (data) => {
-          const output = data.toString()
-
-          // First try to find duration in the output
-          if (!durationFound) {
-            const durationMatch = output.match(/Duration: ([\d:.]+)/)
-            if (durationMatch && durationMatch[1]) {
-              const durationParts = durationMatch[1].split(':')
-              totalDuration =
-                parseFloat(durationParts[0]) * 3600 +
-                parseFloat(durationParts[1]) * 60 +
-                parseFloat(durationParts[2])
-              durationFound = true
-              console.log(`Detected audio duration: ${totalDuration} seconds`)
-            }
-          }
-
-          // Look for time=00:00:00.00 pattern in FFmpeg output
-          const timeMatch = output.match(/time=([\d:.]+)/)
-          if (timeMatch && timeMatch[1]) {
-            const timeParts = timeMatch[1].split(':')
-            const seconds =
-              parseFloat(timeParts[0]) * 3600 +
-              parseFloat(timeParts[1]) * 60 +
-              parseFloat(timeParts[2])
-
-            // Calculate progress based on detected duration
-            const progress = Math.min(99, Math.round((seconds / totalDuration) * 100))
-
-            // Update progress
-            progressData.progress = progress
-            progressData.status = 'processing'
-            global.conversionProgress[jobId] = progressData
-          }
-        })
-
-        ffmpeg.on('close', async (code) => {
-          try {
-            if (code === 0) {
-              const outputBuffer = await readFile(outputPath)
-              await unlink(inputPath)
-              await unlink(outputPath)
+    // Register the conversion so its progress can be polled
+    const job = await jobService.createJob({
+      inputS3Location: { bucket: STAGING_BUCKET, key: basename(inputPath), size: file.size },
+      format,
+      quality
+    })
+    const jobId = job.jobId
+    await jobService.updateJob(jobId, { status: JobStatus.PROCESSING, stage: 'processing' })
+
+    // Waits for a free FFmpeg slot; progress reports the queue position meanwhile.
+    // Cancelling the job kills FFmpeg and removes both files.
+    const result = await ffmpegQueue.run(() => runFfmpegJob({
+      jobId,
+      args,
+      inputPath,
+      outputPath,
+      contentType: `audio/${format}`,
+      defaultDuration: 30,
+      label: 'Audio'
+    }), jobId).catch(async (error): Promise<FfmpegJobResult> => {
+      // Cancelled before a slot became free, so FFmpeg never touched the input
+      await unlink(inputPath).catch(() => {})
+      return { success: false, cancelled: true, error: error.message }
+    })
 
-              // Set progress to 100% when complete
-              progressData.progress = 100
-              progressData.status = 'completed'
-              global.conversionProgress[jobId] = progressData
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.cancelled ? 409 : 500 })
+    }
 
-              resolve(new NextResponse(outputBuffer, {
-                headers: {
-                  'Content-Type': `audio/${format}`,
-                  'Content-Length': outputBuffer.length.toString(),
-                  'X-Job-Id': jobId
-                }
-              }))
-            } else {
-              await unlink(inputPath).catch(() => { })
-              await unlink(outputPath).catch(() => { })
-              resolve(NextResponse.json({ error: 'Audio conversion failed' }, { status: 500 }))
-            }
-          } catch (error) {
-            resolve(NextResponse.json({ error: 'File processing error' }, { status: 500 }))
-          }
-        })
-      } catch (error) {
-        console.error('Failed to spawn FFmpeg:', error)
-        resolve(NextResponse.json({
-          error: 'FFmpeg not found. Please install FFmpeg on your system.'
-        }, { status: 500 }))
-      }
-    })
+    try {
+      const outputBuffer = await readFile(outputPath)
+      await unlink(outputPath)
+
+      return new NextResponse(outputBuffer, {
+        headers: {
+          'Content-Type': `audio/${format}`,
+          'Content-Length': outputBuffer.length.toString(),
+          'X-Job-Id': jobId
+        }
+      })
+    } catch (error) {
+      return NextResponse.json({ error: 'File processing error' }, { status: 500 })
+    }
   } catch (error) {
+    if (error instanceof StagingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Audio conversion error:', error)
     return NextResponse.json({ error: 'Audio conversion failed' }, { status: 500 })
   }
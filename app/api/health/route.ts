@@ -1,6 +1,10 @@
+import { sharpQueue, ffmpegQueue } from '../../../lib/work-queue'
+import { getJanitorStats } from '../../../lib/staging-janitor'
+import { serverConfig } from '../../../lib/server-config'
+
 export async function GET() {
   const memUsage = process.memoryUsage()
-  const isHealthy = memUsage.heapUsed < 1.8 * 1024 * 1024 * 1024 // 1.8GB threshold
+  const isHealthy = memUsage.heapUsed < serverConfig.heapUnhealthyBytes
 
   return Response.json({
     status: isHealthy ? 'ok' : 'warning',
@@ -8,6 +12,11 @@ export async function GET() {
       heapUsed: Math.round(memUsage.heapUsed / 1024 / 1024) + 'MB',
       heapTotal: Math.round(memUsage.heapTotal / 1024 / 1024) + 'MB',
     },
+    queues: {
+      sharp: sharpQueue.stats,
+      ffmpeg: ffmpegQueue.stats,
+    },
+    staging: getJanitorStats(),
     uptime: process.uptime()
   });
-}
\ No newline at end of file
+}
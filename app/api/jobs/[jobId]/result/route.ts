@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server'
+import { createReadStream } from 'fs'
+import { stat } from 'fs/promises'
+import { Readable } from 'stream'
+import { jobService, JobStatus, STAGING_BUCKET } from '../../../../../lib/job-service'
+import { stagingPath } from '../../../../../lib/staging-store'
+
+// Parses a single "bytes=start-end" range. Multi-range requests are served in full.
+function parseRange(header: string | null, size: number): { start: number; end: number } | null | 'invalid' {
+  if (!header) return null
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+
+  let start: number
+  let end: number
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2]))
+    end = size - 1
+  } else {
+    start = parseInt(match[1])
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1
+  }
+
+  if (start > end || start >= size) return 'invalid'
+  return { start, end }
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> | { jobId: string } }
+) {
+  const { jobId } = await params
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+  }
+
+  try {
+    const job = await jobService.getJob(jobId)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (job.status !== JobStatus.COMPLETED || !job.outputS3Location) {
+      return NextResponse.json({ error: 'Job is not completed', status: job.status }, { status: 409 })
+    }
+
+    let outputPath: string
+    let size: number
+    try {
+      // Only results in the staging area are served, whatever the job record says
+      if (job.outputS3Location.bucket !== STAGING_BUCKET) throw new Error('Result is not staged locally')
+      outputPath = stagingPath(job.outputS3Location.key)
+      size = (await stat(outputPath)).size
+    } catch {
+      return NextResponse.json({ error: 'Result not found or expired' }, { status: 410 })
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': job.contentType || 'application/octet-stream',
+      'Accept-Ranges': 'bytes',
+      'X-Job-Id': jobId,
+    }
+
+    const range = parseRange(request.headers.get('range'), size)
+
+    if (range === 'invalid') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` }
+      })
+    }
+
+    if (range) {
+      const stream = createReadStream(outputPath, { start: range.start, end: range.end })
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Length': (range.end - range.start + 1).toString(),
+          'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+        }
+      })
+    }
+
+    const stream = createReadStream(outputPath)
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+      headers: { ...headers, 'Content-Length': size.toString() }
+    })
+  } catch (error) {
+    console.error('Job result error:', error)
+    return NextResponse.json({ error: 'Failed to retrieve job result' }, { status: 500 })
+  }
+}
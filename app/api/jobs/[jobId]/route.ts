@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { jobService, JobStatus } from '../../../../lib/job-service'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> | { jobId: string } }
+) {
+  const { jobId } = await params
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+  }
+
+  try {
+    const job = await jobService.getJob(jobId)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Job lookup error:', error)
+    return NextResponse.json({
+      error: 'Failed to retrieve job details',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> | { jobId: string } }
+) {
+  const { jobId } = await params
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+  }
+
+  try {
+    const job = await jobService.cancelJob(jobId)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (job.status !== JobStatus.CANCELLED) {
+      return NextResponse.json({ error: 'Job already finished', status: job.status }, { status: 409 })
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Job cancel error:', error)
+    return NextResponse.json({
+      error: 'Failed to cancel job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import sharp from 'sharp'
+import { describeMetadata } from '../../../lib/image-metadata'
+import { decodeImageInput, CodecUnavailableError } from '../../../lib/image-codecs'
+import { serverConfig, fileTooLargeMessage } from '../../../lib/server-config'
+import { sharpQueue } from '../../../lib/work-queue'
+
+// Reports what metadata an image carries (EXIF fields, GPS, colour profile,
+// XMP/IPTC) without processing it, for the metadata viewer
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('image') as File
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    // Same input limit as /api/optimize
+    if (file.size > serverConfig.maxImageSize) {
+      return NextResponse.json({ error: fileTooLargeMessage(serverConfig.maxImageSize) }, { status: 413 })
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    // Read the upload itself where possible: a decoded RAW or HEIC has lost its EXIF
+    const header = await sharp(buffer, { limitInputPixels: serverConfig.maxInputPixels }).metadata().catch(() => null)
+    if (header) return NextResponse.json(describeMetadata(header))
+
+    // Decoding with a command-line tool is heavy, so it waits for a sharp slot
+    if (sharpQueue.isFull()) {
+      return NextResponse.json({
+        error: 'Server is busy processing other images. Please retry shortly.'
+      }, { status: 503, headers: { 'Retry-After': sharpQueue.retryAfter.toString() } })
+    }
+
+    const metadata = await sharpQueue.run(async () => {
+      const decoded = await decodeImageInput(buffer, file.name)
+      return sharp(decoded, { limitInputPixels: serverConfig.maxInputPixels }).metadata()
+    })
+    return NextResponse.json(describeMetadata(metadata))
+  } catch (error) {
+    if (error instanceof CodecUnavailableError) {
+      return NextResponse.json({ error: error.message, codec: error.codec }, { status: 415 })
+    }
+    console.error('Metadata read error:', error)
+    return NextResponse.json({ error: 'Could not read image metadata' }, { status: 400 })
+  }
+}
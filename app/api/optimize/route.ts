@@ -1,22 +1,80 @@
 import { NextRequest, NextResponse } from 'next/server'
 import sharp from 'sharp'
-
-// Global progress tracking
-declare global {
-  var conversionProgress: { [key: string]: { jobId: string; progress: number; status: string } }
+import { unlink } from 'fs/promises'
+import { jobService, JobStatus, JobCancelledError, JobExistsError, INLINE_BUCKET } from '../../../lib/job-service'
+import { sharpQueue, ffmpegQueue } from '../../../lib/work-queue'
+import {
+  encodeImage,
+  encodeLossless,
+  encodeToTargetSize,
+  encodeToPerceptualTarget,
+  measureScore,
+  raceFormats,
+  TargetSizeError,
+  PerceptualTargetError
+} from '../../../lib/image-encoder'
+import { applyMetadataMode, isMetadataMode, METADATA_MODES } from '../../../lib/image-metadata'
+import {
+  planColorProfile,
+  colorProfileHeader,
+  stageIccProfile,
+  isColorProfileMode,
+  COLOR_PROFILE_MODES
+} from '../../../lib/color-profile'
+import {
+  animationInfo,
+  canAnimate,
+  encodeAnimationWithFfmpeg,
+  AnimationInfo,
+  FFMPEG_ANIMATED_FORMATS,
+  VIDEO_FORMATS
+} from '../../../lib/animation'
+import { decodeImageInput, recompressJpeg, CodecUnavailableError } from '../../../lib/image-codecs'
+import { detectCodecInput } from '../../../lib/image-signature'
+import {
+  applyTransforms,
+  hasTransforms,
+  changesGeometry,
+  transformsKeepMetadata,
+  orientedSize,
+  rewrap,
+  parseCropRect,
+  isBackgroundColor,
+  ImageTransforms,
+  DEFAULT_ROTATE_BACKGROUND
+} from '../../../lib/image-transform'
+import {
+  SOCIAL_PRESETS,
+  CROP_STRATEGIES,
+  isSocialPresetId,
+  isCropStrategy
+} from '../../../lib/social-presets'
+import {
+  applyAdjustments,
+  hasAdjustments,
+  adjustmentsKeepMetadata,
+  ImageAdjustments,
+  ADJUSTMENT_RANGES
+} from '../../../lib/image-adjustments'
+import { applyWatermark, WatermarkSpec } from '../../../lib/watermark'
+import { isWatermarkPosition, WATERMARK_POSITIONS } from '../../../lib/watermark-layout'
+import { serverConfig, fileTooLargeMessage } from '../../../lib/server-config'
+
+function animationHeaders(animation: AnimationInfo | null, preserved: boolean): Record<string, string> {
+  if (!animation) return {}
+  return {
+    'X-Animation': preserved ? 'preserved' : 'flattened',
+    'X-Frames': animation.frames.toString(),
+    'X-Animation-Duration': animation.durationMs.toString(),
+  }
 }
 
-global.conversionProgress = global.conversionProgress || {}
-
-// Maximum file size limit (50MB)
-const MAX_FILE_SIZE = 50 * 1024 * 1024
-
 // Smart format selection based on image characteristics
 async function getBestFormat(sharpInstance: sharp.Sharp, requestedFormat: string): Promise<string> {
   const metadata = await sharpInstance.metadata()
 
   // If user specifically requested a format, respect it initially
-  if (['webp', 'avif', 'jpeg', 'png'].includes(requestedFormat)) {
+  if (['webp', 'avif', 'jpeg', 'png', 'jxl'].includes(requestedFormat)) {
     return requestedFormat
   }
 
@@ -39,10 +97,13 @@ async function optimizeWithAdaptiveQuality(
   targetQuality: number,
   originalSize: number,
   originalBuffer: Buffer,
-  jobId?: string
+  jobId?: string,
+  signal?: AbortSignal
 ): Promise<Buffer> {
   let bestBuffer: Buffer | null = null
   let bestSize = originalSize
+  // Smallest encode of the requested format, even if it lost to the original
+  let smallestAttempt: Buffer | null = null
   let currentQuality = targetQuality
   let attempts = 0
   const maxAttempts = 8
@@ -53,72 +114,23 @@ async function optimizeWithAdaptiveQuality(
   const originalFormat = metadata.format
 
   while (attempts < maxAttempts && currentQuality >= minQuality) {
+    // A running encode can't be interrupted, but we can stop before the next one
+    if (signal?.aborted) throw new JobCancelledError(jobId!)
+
     attempts++
 
     if (jobId) {
-      global.conversionProgress[jobId] = {
+      jobService.updateProgress(
         jobId,
-        progress: 70 + (attempts * 3),
-        status: `optimizing (attempt ${attempts}, quality ${currentQuality}%)`
-      }
+        70 + (attempts * 3),
+        `optimizing (attempt ${attempts}, quality ${currentQuality}%)`
+      )
     }
 
     try {
-      // Create a fresh Sharp instance for each attempt
-      const instance = sharpInstance.clone()
-      let outputBuffer: Buffer
-
-      switch (format) {
-        case 'webp':
-          outputBuffer = await instance.webp({
-            quality: currentQuality,
-            effort: 6, // Higher effort for better compression
-            smartSubsample: true
-          }).toBuffer()
-          break
-        case 'avif':
-          outputBuffer = await instance.avif({
-            quality: currentQuality,
-            effort: 4,
-            chromaSubsampling: '4:2:0'
-          }).toBuffer()
-          break
-        case 'jpeg':
-          outputBuffer = await instance.jpeg({
-            quality: currentQuality,
-            progressive: true,
-            mozjpeg: true,
-            optimiseScans: true,
-            trellisQuantisation: true
-          }).toBuffer()
-          break
-        case 'png':
-          // PNG compression - use both compressionLevel and palette strategies
-          const compressionLevel = Math.max(1, Math.min(9, Math.round((100 - currentQuality) / 11)))
-          const useQuantization = currentQuality < 70
-
-          if (useQuantization) {
-            // Use quantization for aggressive compression
-            outputBuffer = await instance
-              .png({
-                compressionLevel: 9,
-                progressive: true,
-                palette: true,
-                quality: currentQuality,
-                colours: Math.max(16, Math.min(256, Math.round(currentQuality * 2.56)))
-              }).toBuffer()
-          } else {
-            outputBuffer = await instance.png({
-              compressionLevel,
-              progressive: true
-            }).toBuffer()
-          }
-          break
-        default:
-          outputBuffer = await instance.webp({
-            quality: currentQuality,
-            effort: 6
-          }).toBuffer()
+      const outputBuffer = await encodeImage(sharpInstance, format, currentQuality)
+      if (!smallestAttempt || outputBuffer.length < smallestAttempt.length) {
+        smallestAttempt = outputBuffer
       }
 
       // Check if this is the best result so far
@@ -208,16 +220,66 @@ async function optimizeWithAdaptiveQuality(
     }
   }
 
-  // Absolute last resort: return original if nothing worked
-  console.warn(`All compression attempts failed. Original: ${originalSize}, Best attempt: ${bestSize}`)
-  throw new Error(`Cannot compress image smaller than original. Try a different format or the image may already be optimally compressed.`)
+  // Nothing beat the original; the caller decides what to do with the smallest attempt
+  console.warn(`No attempt beat the original. Original: ${originalSize}, smallest attempt: ${smallestAttempt?.length}`)
+  if (!smallestAttempt) {
+    throw new Error('Every compression attempt failed')
+  }
+  return smallestAttempt
 }
 
-export async function POST(request: NextRequest) {
-  // Set timeout for App Runner (max 120 seconds)
+// Not an error: the caller already has the better file. The body says so
+// instead of sending back a bigger one.
+function originalKeptResponse(originalSize: number, smallestSize: number, format: string): NextResponse {
+  console.log(`Original kept: ${originalSize} <= ${smallestSize} (${format})`)
+  return NextResponse.json({
+    result: 'original-kept',
+    message: 'The original is smaller than any result, so it was kept. Send allowLarger=true to convert anyway.',
+    originalSize,
+    smallestSize,
+    format
+  }, { headers: { 'X-Result': 'original-kept' } })
+}
+
+class ProcessingTimeoutError extends Error {
+  constructor() {
+    super('Processing timeout - image too complex')
+    this.name = 'ProcessingTimeoutError'
+  }
+}
+
+// Gives queued work a signal that aborts when the job is cancelled or the time
+// limit runs out. The limit starts once the work has its slot, so waiting in
+// the queue doesn't count against it.
+async function runWithLimits<T>(jobId: string | undefined, work: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const abortController = new AbortController()
+  const stopWatchingCancel = jobId
+    ? jobService.onCancel(jobId, () => abortController.abort())
+    : () => {}
+  let timedOut = false
   const timeoutId = setTimeout(() => {
-    throw new Error('Processing timeout - image too complex')
-  }, 110000) // 110 seconds to leave buffer
+    timedOut = true
+    abortController.abort()
+  }, serverConfig.imageTimeoutMs)
+
+  try {
+    return await work(abortController.signal)
+  } catch (error) {
+    throw timedOut ? new ProcessingTimeoutError() : error
+  } finally {
+    clearTimeout(timeoutId)
+    stopWatchingCancel()
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // Reject obviously oversized requests before reading any of the body
+  const contentLength = Number(request.headers.get('content-length'))
+  if (contentLength > serverConfig.maxImageSize + serverConfig.maxWatermarkLogoSize + 1024 * 1024) {
+    return NextResponse.json({ error: fileTooLargeMessage(serverConfig.maxImageSize) }, { status: 413 })
+  }
+
+  let jobId: string | undefined
 
   try {
     const formData = await request.formData()
@@ -226,134 +288,591 @@ export async function POST(request: NextRequest) {
     const quality = parseInt(formData.get('quality') as string)
     const width = formData.get('width') ? parseInt(formData.get('width') as string) : undefined
     const height = formData.get('height') ? parseInt(formData.get('height') as string) : undefined
-    const jobId = formData.get('jobId') as string
+    // Byte budget; when set, quality is searched to fit it instead of taken from `quality`
+    const targetSize = formData.get('targetSize') ? parseInt(formData.get('targetSize') as string) : undefined
+    const allowDownscale = formData.get('allowDownscale') === 'true'
+    // Perceptual target: smallest output whose SSIM against the source is at least this
+    const minSsim = formData.get('minSsim') ? parseFloat(formData.get('minSsim') as string) : undefined
+    // Keep every pixel: lossless encoders, or JPEG recompressed without decoding it
+    const lossless = formData.get('lossless') === 'true'
+    // Send the conversion back even when it's larger than the upload, instead of keeping the original
+    const allowLarger = formData.get('allowLarger') === 'true'
+    // What to keep of EXIF/XMP/IPTC and the colour profile; everything is stripped by default
+    const metadataMode = (formData.get('metadata') as string) || 'strip'
+    // Convert to sRGB (default) or keep the source's colour profile
+    const colorProfile = (formData.get('colorProfile') as string) || 'srgb'
+    // Animated GIF/WebP input keeps its frames where the output format allows, unless 'false'
+    const keepAnimation = formData.get('animated') !== 'false'
+    // 0-based page to export from multi-page input such as TIFF or PDF
+    const page = formData.get('page') ? parseInt(formData.get('page') as string) : undefined
+    // Text or logo overlay, composited after edits and resizing; scale is a fraction of the image width
+    const watermarkLogo = formData.get('watermarkLogo')
+    const watermarkText = (formData.get('watermarkText') as string) || undefined
+    const watermarkPosition = (formData.get('watermarkPosition') as string) || 'bottom-right'
+    const watermarkOpacity = formData.get('watermarkOpacity') ? parseFloat(formData.get('watermarkOpacity') as string) : 0.5
+    const watermarkScale = formData.get('watermarkScale') ? parseFloat(formData.get('watermarkScale') as string) : 0.25
+    const watermarkColor = (formData.get('watermarkColor') as string) || '#ffffff'
+    const watermarked = !!watermarkLogo || !!watermarkText
+    // Edits before resizing: crop is 'left,top,width,height' in oriented pixels, rotate in degrees clockwise
+    const cropField = formData.get('crop') as string | null
+    const rotate = formData.get('rotate') ? Number(formData.get('rotate')) : 0
+    const transforms: ImageTransforms = {
+      // A watermark goes on upright pixels, or it would turn with the orientation tag
+      autoOrient: formData.get('autoOrient') === 'true' || watermarked,
+      crop: cropField ? parseCropRect(cropField) ?? undefined : undefined,
+      rotate,
+      background: (formData.get('background') as string) || DEFAULT_ROTATE_BACKGROUND,
+      flipHorizontal: formData.get('flipHorizontal') === 'true',
+      flipVertical: formData.get('flipVertical') === 'true',
+    }
+    // Filters after resizing: sigmas are off at 0, the others are multipliers where 1 changes nothing
+    const adjustments: ImageAdjustments = {
+      sharpen: formData.get('sharpen') ? Number(formData.get('sharpen')) : 0,
+      blur: formData.get('blur') ? Number(formData.get('blur')) : 0,
+      brightness: formData.get('brightness') ? Number(formData.get('brightness')) : 1,
+      saturation: formData.get('saturation') ? Number(formData.get('saturation')) : 1,
+      contrast: formData.get('contrast') ? Number(formData.get('contrast')) : 1,
+      grayscale: formData.get('grayscale') === 'true',
+      normalize: formData.get('normalize') === 'true',
+      trim: formData.get('trim') === 'true',
+      flatten: (formData.get('flatten') as string) || undefined,
+    }
+    // Social media size: exact dimensions, cropped to fit by cropStrategy
+    const presetId = formData.get('preset') as string | null
+    const cropStrategy = (formData.get('cropStrategy') as string) || 'attention'
+    jobId = (formData.get('jobId') as string) || undefined
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
+    if (targetSize !== undefined && (isNaN(targetSize) || targetSize <= 0)) {
+      return NextResponse.json({ error: 'targetSize must be a positive number of bytes' }, { status: 400 })
+    }
+
+    if (minSsim !== undefined && (isNaN(minSsim) || minSsim <= 0 || minSsim > 1)) {
+      return NextResponse.json({ error: 'minSsim must be between 0 and 1' }, { status: 400 })
+    }
+
+    if (!isMetadataMode(metadataMode)) {
+      return NextResponse.json({ error: `metadata must be one of: ${METADATA_MODES.join(', ')}` }, { status: 400 })
+    }
+
+    if (!isColorProfileMode(colorProfile)) {
+      return NextResponse.json({ error: `colorProfile must be one of: ${COLOR_PROFILE_MODES.join(', ')}` }, { status: 400 })
+    }
+
+    if (page !== undefined && (isNaN(page) || page < 0)) {
+      return NextResponse.json({ error: 'page must be a page index starting at 0' }, { status: 400 })
+    }
+
+    if (cropField && !transforms.crop) {
+      return NextResponse.json({ error: 'crop must be left,top,width,height in whole pixels' }, { status: 400 })
+    }
+
+    if (!Number.isFinite(rotate)) {
+      return NextResponse.json({ error: 'rotate must be a number of degrees' }, { status: 400 })
+    }
+
+    if (presetId && !isSocialPresetId(presetId)) {
+      return NextResponse.json({ error: `preset must be one of: ${Object.keys(SOCIAL_PRESETS).join(', ')}` }, { status: 400 })
+    }
+
+    if (presetId && (width || height)) {
+      return NextResponse.json({ error: 'Use either preset or width/height, not both' }, { status: 400 })
+    }
+
+    if (!isCropStrategy(cropStrategy)) {
+      return NextResponse.json({ error: `cropStrategy must be one of: ${CROP_STRATEGIES.join(', ')}` }, { status: 400 })
+    }
+
+    if (!isBackgroundColor(transforms.background)) {
+      return NextResponse.json({ error: 'background must be a hex colour such as #ffffff, or transparent' }, { status: 400 })
+    }
+
+    for (const [name, { min, max }] of Object.entries(ADJUSTMENT_RANGES)) {
+      const value = adjustments[name as keyof typeof ADJUSTMENT_RANGES]
+      const switchedOff = (name === 'sharpen' || name === 'blur') && value === 0
+      if (!switchedOff && !(value >= min && value <= max)) {
+        return NextResponse.json({ error: `${name} must be between ${min} and ${max}` }, { status: 400 })
+      }
+    }
+
+    if (adjustments.flatten && (!isBackgroundColor(adjustments.flatten) || adjustments.flatten === 'transparent')) {
+      return NextResponse.json({ error: 'flatten must be a hex colour such as #ffffff' }, { status: 400 })
+    }
+
+    if (watermarked) {
+      let watermarkError: string | undefined
+      if (watermarkLogo && watermarkText) {
+        watermarkError = 'Use either watermarkLogo or watermarkText, not both'
+      } else if (typeof watermarkLogo === 'string') {
+        watermarkError = 'watermarkLogo must be an image file'
+      } else if (watermarkLogo && watermarkLogo.size > serverConfig.maxWatermarkLogoSize) {
+        return NextResponse.json({ error: fileTooLargeMessage(serverConfig.maxWatermarkLogoSize, 'watermarkLogo') }, { status: 413 })
+      } else if (!isWatermarkPosition(watermarkPosition)) {
+        watermarkError = `watermarkPosition must be one of: ${WATERMARK_POSITIONS.join(', ')}`
+      } else if (isNaN(watermarkOpacity) || watermarkOpacity <= 0 || watermarkOpacity > 1) {
+        watermarkError = 'watermarkOpacity must be between 0 and 1'
+      } else if (isNaN(watermarkScale) || watermarkScale < 0.01 || watermarkScale > 1) {
+        watermarkError = 'watermarkScale must be between 0.01 and 1 (a fraction of the image width)'
+      } else if (!isBackgroundColor(watermarkColor) || watermarkColor === 'transparent') {
+        watermarkError = 'watermarkColor must be a hex colour such as #ffffff'
+      }
+      if (watermarkError) {
+        return NextResponse.json({ error: watermarkError }, { status: 400 })
+      }
+    }
+
+    if (targetSize !== undefined && minSsim !== undefined) {
+      return NextResponse.json({ error: 'Use either targetSize or minSsim, not both' }, { status: 400 })
+    }
+
+    if (lossless && (targetSize !== undefined || minSsim !== undefined)) {
+      return NextResponse.json({ error: 'lossless cannot be combined with targetSize or minSsim' }, { status: 400 })
+    }
+
+    if (lossless && format === 'auto') {
+      return NextResponse.json({ error: 'lossless needs a specific format, not auto' }, { status: 400 })
+    }
+
+    // 'auto' races every format, which has no meaning against a byte budget
+    if (format === 'auto' && targetSize !== undefined) {
+      return NextResponse.json({ error: 'targetSize needs a specific format, not auto' }, { status: 400 })
+    }
+
     // File size validation
-    if (file.size > MAX_FILE_SIZE) {
+    if (file.size > serverConfig.maxImageSize) {
+      return NextResponse.json({ error: fileTooLargeMessage(serverConfig.maxImageSize) }, { status: 413 })
+    }
+
+    // Refuse new work while the queue is saturated
+    if (sharpQueue.isFull()) {
       return NextResponse.json({
-        error: `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB`
-      }, { status: 400 })
+        error: 'Server is busy processing other images. Please retry shortly.'
+      }, { status: 503, headers: { 'Retry-After': sharpQueue.retryAfter.toString() } })
     }
 
     // Initialize progress tracking
     if (jobId) {
-      global.conversionProgress[jobId] = { jobId, progress: 0, status: 'starting' }
+      await jobService.createJob({
+        jobId,
+        inputS3Location: { bucket: INLINE_BUCKET, key: file.name, size: file.size },
+        format,
+        quality: targetSize ? `target ${targetSize}B` : minSsim ? `ssim ${minSsim}` : quality.toString()
+      })
+      await jobService.updateJob(jobId, { status: JobStatus.PROCESSING, stage: 'starting' })
     }
 
     if (jobId) {
-      global.conversionProgress[jobId] = { jobId, progress: 20, status: 'reading file' }
+      jobService.updateProgress(jobId, 20, 'reading file')
+    }
+
+    // Header-only read to tell stills, animations and multi-page documents apart,
+    // and the checks that depend on what it finds
+    const inspect = async (buffer: Buffer) => {
+      const probe = await sharp(buffer, { limitInputPixels: serverConfig.maxInputPixels }).metadata()
+      const animation = animationInfo(probe)
+      const keepFrames = !!animation && keepAnimation && page === undefined && canAnimate(probe, format)
+      // JPEG to JPEG is only lossless when the compressed data is reused as it is
+      const losslessJpeg = lossless && format === 'jpeg'
+      const movesPixels = changesGeometry(transforms, probe.orientation)
+      const changesPixels = !!(width || height || presetId) || movesPixels || hasAdjustments(adjustments) || watermarked
+
+      let inputError: string | undefined
+      if (VIDEO_FORMATS.includes(format) && !(keepFrames && probe.format === 'gif')) {
+        inputError = 'MP4 and WebM output is only available for animated GIFs'
+      } else if (lossless && keepFrames && FFMPEG_ANIMATED_FORMATS.includes(format)) {
+        inputError = 'Lossless animations are only available as WebP; send animated=false for a single frame'
+      } else if (losslessJpeg && (probe.format !== 'jpeg' || changesPixels)) {
+        inputError = 'Lossless JPEG output reuses an uploaded JPEG as it is, without resizing, edits, ' +
+          'auto-orientation, adjustments or watermarks; choose PNG, WebP, AVIF or JPEG XL for lossless output otherwise'
+      } else if (keepFrames && minSsim !== undefined) {
+        inputError = 'minSsim is not supported for animated output'
+      } else if (keepFrames && watermarked) {
+        inputError = 'Watermarks are drawn on single images only; send animated=false for animations'
+      } else if (keepFrames && adjustments.trim) {
+        inputError = 'trim is not supported for animated output; send animated=false'
+      } else if (keepFrames && presetId) {
+        inputError = 'Presets crop single images only; send animated=false for animations'
+      } else if (keepFrames && movesPixels) {
+        inputError = 'Crop, rotate, flip and auto-orient are not supported for animated output; send animated=false'
+      } else if (page !== undefined && page >= (probe.pages ?? 1)) {
+        inputError = `page ${page} does not exist; the image has ${probe.pages ?? 1} page(s)`
+      } else if (transforms.crop) {
+        const { width: imageWidth, height: imageHeight } = orientedSize(probe)
+        const { left, top, width: cropWidth, height: cropHeight } = transforms.crop
+        if (left + cropWidth > imageWidth || top + cropHeight > imageHeight) {
+          inputError = `crop rectangle lies outside the ${imageWidth}x${imageHeight} image`
+        }
+      }
+      return { probe, animation, keepFrames, losslessJpeg, changesPixels, inputError }
+    }
+
+    const rejectInput = async (inputError: string) => {
+      if (jobId) {
+        await jobService.updateJob(jobId, { status: JobStatus.FAILED, error: inputError })
+      }
+      return NextResponse.json({ error: inputError }, { status: 400 })
     }
 
-    const buffer = Buffer.from(await file.arrayBuffer())
-    const originalSize = buffer.length
+    const upload = Buffer.from(await file.arrayBuffer())
+    const originalSize = upload.length
+    // HEIC, JPEG XL and RAW may need a command-line decoder, the heaviest step of
+    // all, so they are decoded and inspected once they have a sharp slot. They are
+    // never animated, so they never take the FFmpeg path.
+    const needsDecode = !!detectCodecInput(upload, file.name)
+    const inspected = needsDecode ? null : await inspect(upload)
+    if (inspected?.inputError) return await rejectInput(inspected.inputError)
+
+    // Animated AVIF and video are FFmpeg's job, so they wait in its queue instead
+    if (inspected?.keepFrames && FFMPEG_ANIMATED_FORMATS.includes(format)) {
+      const { animation, changesPixels } = inspected
+      if (ffmpegQueue.isFull()) {
+        return NextResponse.json({
+          error: 'Server is busy with other conversions. Please retry shortly.'
+        }, { status: 503, headers: { 'Retry-After': ffmpegQueue.retryAfter.toString() } })
+      }
+
+      return await ffmpegQueue.run(() => runWithLimits(jobId, async (signal) => {
+        const outputBuffer = await encodeAnimationWithFfmpeg(upload, format, {
+          quality,
+          width,
+          height,
+          jobId,
+          signal
+        })
+
+        if (jobId) {
+          await jobService.updateJob(jobId, { status: JobStatus.COMPLETED, progress: 100, stage: 'completed' })
+        }
+
+        if (outputBuffer.length >= originalSize && !allowLarger && !changesPixels) {
+          return originalKeptResponse(originalSize, outputBuffer.length, format)
+        }
+
+        return new NextResponse(outputBuffer, {
+          headers: {
+            'Content-Type': VIDEO_FORMATS.includes(format) ? `video/${format}` : `image/${format}`,
+            'Content-Length': outputBuffer.length.toString(),
+            'X-Original-Size': originalSize.toString(),
+            'X-Compression-Ratio': ((1 - outputBuffer.length / originalSize) * 100).toFixed(1),
+            'X-Format-Used': format,
+            'X-Result': outputBuffer.length < originalSize ? 'optimized' : 'converted-larger',
+            ...animationHeaders(animation, true),
+          },
+        })
+      }), jobId)
+    }
 
     // Memory usage check for production
     const memUsage = process.memoryUsage()
-    if (memUsage.heapUsed > 1.5 * 1024 * 1024 * 1024) { // 1.5GB threshold
+    if (memUsage.heapUsed > serverConfig.heapWarningBytes) {
       console.warn('High memory usage detected:', memUsage)
       // Force garbage collection if available
       if (global.gc) global.gc()
     }
 
-    if (jobId) {
-      global.conversionProgress[jobId] = { jobId, progress: 40, status: 'initializing processor' }
-    }
-
-    // Initialize Sharp with production-optimized settings
-    let sharpInstance = sharp(buffer, {
-      limitInputPixels: 268402689, // ~16k x 16k max
-      sequentialRead: true,
-      density: 72,
-      // Production optimizations
-      pages: 1, // Only process first page for multi-page formats
-      subifd: -1, // Disable SUBIFD processing for faster performance
-    })
-
-    // Get image metadata for validation
-    const metadata = await sharpInstance.metadata()
-
-    // Validate image dimensions
-    if (metadata.width && metadata.height) {
-      const maxDimension = 8000
-      if (metadata.width > maxDimension || metadata.height > maxDimension) {
-        return NextResponse.json({
-          error: `Image dimensions too large. Maximum dimension is ${maxDimension}px`
-        }, { status: 400 })
+    // Wait for a free sharp slot; progress reports the queue position meanwhile
+    return await sharpQueue.run(() => runWithLimits(jobId, async (signal) => {
+      let stagedProfile: string | undefined
+
+      try {
+        if (needsDecode && jobId) {
+          jobService.updateProgress(jobId, 30, 'decoding')
+        }
+        const buffer = needsDecode ? await decodeImageInput(upload, file.name) : upload
+        const current = inspected ?? await inspect(buffer)
+        if (current.inputError) return await rejectInput(current.inputError)
+        const { probe, animation, keepFrames, losslessJpeg, changesPixels } = current
+
+        if (jobId) {
+          jobService.updateProgress(jobId, 40, 'initializing processor')
+        }
+
+        // Initialize Sharp with production-optimized settings
+        let sharpInstance = sharp(buffer, {
+          limitInputPixels: serverConfig.maxInputPixels,
+          sequentialRead: true,
+          density: 72,
+          // Production optimizations
+          pages: keepFrames ? -1 : 1, // All frames of a kept animation, otherwise a single page
+          page: page ?? 0,
+          subifd: -1, // Disable SUBIFD processing for faster performance
+        })
+
+        // Get image metadata for validation
+        const metadata = await sharpInstance.metadata()
+
+        // Validate image dimensions (per frame; animations load as one tall strip)
+        const frameHeight = metadata.pageHeight ?? metadata.height
+        if (metadata.width && frameHeight) {
+          const maxDimension = serverConfig.maxImageDimension
+          if (metadata.width > maxDimension || frameHeight > maxDimension) {
+            if (jobId) {
+              await jobService.updateJob(jobId, { status: JobStatus.FAILED, error: 'Image dimensions too large' })
+            }
+            return NextResponse.json({
+              error: `Image dimensions too large. Maximum dimension is ${maxDimension}px`
+            }, { status: 413 })
+          }
+        }
+
+        // A kept animation has nothing to edit by now (see inspect)
+        if (!keepFrames) sharpInstance = await applyTransforms(sharpInstance, transforms)
+
+        if (jobId) {
+          jobService.updateProgress(jobId, 60, 'resizing image')
+        }
+
+        // Presets fill their exact size and crop the overflow; plain dimensions fit inside
+        const preset = presetId && isSocialPresetId(presetId) ? SOCIAL_PRESETS[presetId] : undefined
+        if (preset) {
+          // Re-wrapped so the crop survives the resizes that SSIM scoring and
+          // target-size downscaling add later; sharp keeps only the last one
+          sharpInstance = await rewrap(sharpInstance.resize(preset.width, preset.height, {
+            fit: 'cover',
+            position: cropStrategy === 'centre' ? 'centre' : sharp.strategy[cropStrategy],
+            kernel: sharp.kernel.lanczos3
+          }))
+        } else if (width || height) {
+          sharpInstance = sharpInstance.resize(width, height, {
+            fit: 'inside',
+            withoutEnlargement: true,
+            kernel: sharp.kernel.lanczos3 // Better quality for resizing
+          })
+        }
+
+        if (jobId) {
+          jobService.updateProgress(jobId, 61, 'applying adjustments')
+        }
+        sharpInstance = await applyAdjustments(sharpInstance, adjustments)
+
+        if (watermarked) {
+          if (jobId) {
+            jobService.updateProgress(jobId, 62, 'adding watermark')
+          }
+          const watermark: WatermarkSpec = {
+            text: watermarkText,
+            logo: watermarkLogo instanceof Blob ? Buffer.from(await watermarkLogo.arrayBuffer()) : undefined,
+            color: watermarkColor,
+            position: watermarkPosition as WatermarkSpec['position'],
+            opacity: watermarkOpacity,
+            scale: watermarkScale,
+            tile: formData.get('watermarkTile') === 'true'
+          }
+          sharpInstance = await applyWatermark(sharpInstance, watermark)
+        }
+
+        // The selective metadata modes re-wrap single-frame pixels, so animations
+        // either keep everything or nothing. Flips, rotation, presets, trim and watermarks
+        // have already re-wrapped, so only the fields written from scratch survive them.
+        const rewrapped = watermarked || !!preset || !transformsKeepMetadata(transforms) ||
+          !adjustmentsKeepMetadata(adjustments)
+        // jpegtran copies all of the source's markers or only its colour profile
+        const appliedMetadata = keepFrames && metadataMode !== 'all'
+          ? 'strip'
+          : metadataMode === 'all' && rewrapped ? 'copyright'
+          : losslessJpeg && metadataMode === 'copyright' ? 'icc'
+          : metadataMode
+        // Oriented pixels must not carry the orientation tag again
+        const outputMetadata = hasTransforms(transforms) ? { ...metadata, orientation: undefined } : metadata
+
+        // sharp converts the embedded profile (or CMYK) to sRGB while processing;
+        // preserving converts back into the source profile when encoding
+        // Grey pixels can't be converted into a colour source profile, and don't need one.
+        // Recompressed JPEGs keep their colours and profile untouched.
+        const colorPlan = planColorProfile(
+          metadata,
+          losslessJpeg ? 'preserve'
+            : (keepFrames && appliedMetadata === 'strip') || adjustments.grayscale ? 'srgb' : colorProfile
+        )
+        if (!losslessJpeg) {
+          if (colorPlan.cmyk) sharpInstance = sharpInstance.toColourspace('srgb')
+          if (colorPlan.icc) stagedProfile = await stageIccProfile(colorPlan.icc)
+
+          sharpInstance = await applyMetadataMode(sharpInstance, appliedMetadata, outputMetadata, stagedProfile)
+        }
+
+        // Get the best format for this image; 'auto' is settled by the race below
+        let bestFormat = format === 'auto' ? format : await getBestFormat(sharpInstance, format)
+
+        if (jobId) {
+          jobService.updateProgress(jobId, 65, format === 'auto'
+            ? 'encoding every format to find the smallest'
+            : `using ${bestFormat} format for optimal compression`)
+        }
+
+        const resultHeaders: Record<string, string> = {}
+        let outputBuffer: Buffer
+        let score: number | undefined
+
+        if (format === 'auto') {
+          const race = await raceFormats(sharpInstance, minSsim ? { minScore: minSsim } : { quality }, {
+            jobId,
+            signal
+          })
+          outputBuffer = race.buffer
+          bestFormat = race.format
+          score = race.score
+          resultHeaders['X-Quality-Used'] = race.quality.toString()
+          // What each format would have cost, for the comparison table in the UI
+          resultHeaders['X-Format-Sizes'] = JSON.stringify(race.candidates)
+        } else if (targetSize) {
+          // An untouched image must also beat the original, unless larger results are wanted
+          const budget = allowLarger || changesPixels ? targetSize : Math.min(targetSize, originalSize - 1)
+          let fitted
+          try {
+            fitted = await encodeToTargetSize(sharpInstance, bestFormat, budget, {
+              allowDownscale,
+              jobId,
+              signal
+            })
+          } catch (error) {
+            // Nothing beat an untouched original that already fits, so it is the answer
+            if (!(error instanceof TargetSizeError) || changesPixels || originalSize > targetSize) throw error
+            if (jobId) {
+              await jobService.updateJob(jobId, { status: JobStatus.COMPLETED, progress: 100, stage: 'completed' })
+            }
+            return originalKeptResponse(originalSize, error.smallestSize, bestFormat)
+          }
+          outputBuffer = fitted.buffer
+          resultHeaders['X-Quality-Used'] = fitted.quality.toString()
+          resultHeaders['X-Target-Size'] = targetSize.toString()
+          if (fitted.scale < 1 && fitted.width && fitted.height) {
+            resultHeaders['X-Downscaled-To'] = `${fitted.width}x${fitted.height}`
+          }
+        } else if (minSsim) {
+          const matched = await encodeToPerceptualTarget(sharpInstance, bestFormat, minSsim, {
+            jobId,
+            signal
+          })
+          outputBuffer = matched.buffer
+          score = matched.score
+          resultHeaders['X-Quality-Used'] = matched.quality.toString()
+        } else if (lossless) {
+          if (jobId) {
+            jobService.updateProgress(jobId, 75, 'encoding losslessly')
+          }
+          outputBuffer = losslessJpeg
+            ? await recompressJpeg(buffer, appliedMetadata === 'all' ? 'all' : 'icc')
+            : await encodeLossless(sharpInstance, bestFormat)
+          resultHeaders['X-Lossless'] = 'true'
+        } else if (allowLarger) {
+          // Size doesn't matter to the caller, so encode once at the requested quality
+          outputBuffer = await encodeImage(sharpInstance, bestFormat, quality)
+        } else {
+          // Use adaptive quality optimization
+          outputBuffer = await optimizeWithAdaptiveQuality(
+            sharpInstance,
+            bestFormat,
+            quality,
+            originalSize,
+            buffer,
+            jobId,
+            signal
+          )
+        }
+
+        // Nothing beat the upload and a larger file wasn't asked for: the original is kept.
+        // Resized or edited output always goes back, since the original isn't what was asked for.
+        const keepOriginal = outputBuffer.length >= originalSize && !allowLarger && !changesPixels
+
+        // Report how close the result looks to the source, whichever mode produced it.
+        // Scoring compares single frames, so animations are left out.
+        if (!keepFrames && !keepOriginal) {
+          try {
+            score ??= await measureScore(sharpInstance, outputBuffer)
+            resultHeaders['X-SSIM'] = score.toFixed(4)
+          } catch (error) {
+            console.error('SSIM scoring failed:', error)
+          }
+        }
+
+        if (page !== undefined) {
+          resultHeaders['X-Page'] = `${page + 1}/${probe.pages ?? 1}`
+        }
+
+        if (preset) {
+          resultHeaders['X-Preset'] = `${presetId}; ${preset.width}x${preset.height}; ${cropStrategy}`
+        }
+
+        if (jobId) {
+          await jobService.updateJob(jobId, { status: JobStatus.COMPLETED, progress: 100, stage: 'completed' })
+        }
+
+        if (keepOriginal) {
+          return originalKeptResponse(originalSize, outputBuffer.length, bestFormat)
+        }
+
+        const compressionRatio = ((1 - outputBuffer.length / originalSize) * 100).toFixed(1)
+        console.log(`Compression successful: ${originalSize} -> ${outputBuffer.length} (${compressionRatio}% reduction)`)
+
+        return new NextResponse(outputBuffer, {
+          headers: {
+            'Content-Type': `image/${bestFormat}`,
+            'Content-Length': outputBuffer.length.toString(),
+            'X-Original-Size': originalSize.toString(),
+            'X-Compression-Ratio': compressionRatio,
+            'X-Format-Used': bestFormat,
+            'X-Result': outputBuffer.length < originalSize ? 'optimized' : 'converted-larger',
+            'X-Metadata': appliedMetadata,
+            'X-Color-Profile': colorProfileHeader(colorPlan),
+            ...animationHeaders(animation, keepFrames),
+            ...resultHeaders,
+          },
+        })
+      } finally {
+        if (stagedProfile) await unlink(stagedProfile).catch(() => {})
       }
+    }), jobId)
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      return NextResponse.json({ error: 'Processing cancelled' }, { status: 409 })
     }
 
-    if (jobId) {
-      global.conversionProgress[jobId] = { jobId, progress: 60, status: 'resizing image' }
+    // Someone else's job: leave its record alone
+    if (error instanceof JobExistsError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
     }
 
-    // Resize if dimensions provided
-    if (width || height) {
-      sharpInstance = sharpInstance.resize(width, height, {
-        fit: 'inside',
-        withoutEnlargement: true,
-        kernel: sharp.kernel.lanczos3 // Better quality for resizing
-      })
+    if (error instanceof ProcessingTimeoutError) {
+      if (jobId) {
+        await jobService.updateJob(jobId, { status: JobStatus.FAILED, progress: 0, error: error.message })
+      }
+      return NextResponse.json({ error: error.message }, { status: 504 })
     }
 
-    // Get the best format for this image
-    const bestFormat = await getBestFormat(sharpInstance, format)
-
-    if (jobId) {
-      global.conversionProgress[jobId] = {
-        jobId,
-        progress: 65,
-        status: `using ${bestFormat} format for optimal compression`
+    if (error instanceof TargetSizeError || error instanceof PerceptualTargetError) {
+      if (jobId) {
+        await jobService.updateJob(jobId, { status: JobStatus.FAILED, progress: 0, error: error.message })
       }
+      const details = error instanceof TargetSizeError
+        ? { smallestSize: error.smallestSize }
+        : { bestScore: error.bestScore }
+      return NextResponse.json({ error: error.message, ...details }, { status: 400 })
     }
 
-    // Use adaptive quality optimization
-    const outputBuffer = await optimizeWithAdaptiveQuality(
-      sharpInstance,
-      bestFormat,
-      quality,
-      originalSize,
-      buffer,
-      jobId
-    )
-
-    if (jobId) {
-      global.conversionProgress[jobId] = { jobId, progress: 100, status: 'completed' }
+    // A missing codec is a property of this deployment: 415 for input, 501 for output
+    if (error instanceof CodecUnavailableError) {
+      if (jobId) {
+        await jobService.updateJob(jobId, { status: JobStatus.FAILED, progress: 0, error: error.message })
+      }
+      return NextResponse.json(
+        { error: error.message, codec: error.codec },
+        { status: error.direction === 'input' ? 415 : 501 }
+      )
     }
 
-    clearTimeout(timeoutId)
-
-    // Final validation - this should never happen with our new logic
-    if (outputBuffer.length >= originalSize) {
-      console.error(`CRITICAL: Output size (${outputBuffer.length}) >= original size (${originalSize})`)
-      return NextResponse.json({
-        error: `Cannot compress image smaller than original (${(originalSize / (1024 * 1024)).toFixed(1)}MB). The image may already be optimally compressed or try a different format.`
-      }, { status: 400 })
-    }
-
-    const compressionRatio = ((1 - outputBuffer.length / originalSize) * 100).toFixed(1)
-    console.log(`Compression successful: ${originalSize} -> ${outputBuffer.length} (${compressionRatio}% reduction)`)
-
-    return new NextResponse(outputBuffer, {
-      headers: {
-        'Content-Type': `image/${bestFormat}`,
-        'Content-Length': outputBuffer.length.toString(),
-        'X-Original-Size': originalSize.toString(),
-        'X-Compression-Ratio': compressionRatio,
-        'X-Format-Used': bestFormat,
-      },
-    })
-  } catch (error) {
-    clearTimeout(timeoutId)
     console.error('Image processing error:', error)
 
     // Update progress on error
-    const jobId = (await request.formData().catch(() => new FormData())).get('jobId') as string
     if (jobId) {
-      global.conversionProgress[jobId] = { jobId, progress: 0, status: 'error' }
+      await jobService.updateJob(jobId, {
+        status: JobStatus.FAILED,
+        progress: 0,
+        error: error instanceof Error ? error.message : 'Image processing failed'
+      })
     }
 
     return NextResponse.json({
@@ -1,20 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { jobService, toJobProgress } from '../../../lib/job-service'
 
 export async function GET(request: NextRequest) {
   try {
     const jobId = request.nextUrl.searchParams.get('jobId')
-    
+
     if (!jobId) {
       return NextResponse.json({ error: 'No job ID provided' }, { status: 400 })
     }
-    
-    // Access the global progress tracking object
-    global.conversionProgress = global.conversionProgress || {}
-    const progressData = global.conversionProgress[jobId] || { jobId, progress: 0 }
-    
+
+    // Clients may start polling before the job has been registered
+    const job = await jobService.getJob(jobId)
+    const progressData = job ? toJobProgress(job) : { jobId, progress: 0 }
+
     return NextResponse.json(progressData)
   } catch (error) {
     console.error('Progress tracking error:', error)
     return NextResponse.json({ error: 'Failed to get progress' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { jobService, toJobProgress, isJobFinished, JobProgress } from '../../../../lib/job-service'
+
+export const dynamic = 'force-dynamic'
+
+// Keeps proxies from closing an idle stream while FFmpeg is busy
+const HEARTBEAT_INTERVAL = 15000
+
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId')
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'No job ID provided' }, { status: 400 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false
+      let lastPayload = ''
+
+      const send = (data: JobProgress | { jobId: string; progress: number }) => {
+        const payload = JSON.stringify(data)
+        // Skip repeats, e.g. stage text updates that did not change anything visible
+        if (closed || payload === lastPayload) return
+        lastPayload = payload
+        controller.enqueue(encoder.encode(`data: ${payload}\n\n`))
+      }
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }, HEARTBEAT_INTERVAL)
+
+      const unsubscribe = jobService.subscribe(jobId, (data) => {
+        send(data)
+        if (isJobFinished(data.status)) cleanup()
+      })
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {
+          // Already cancelled by the client
+        }
+      }
+
+      request.signal.addEventListener('abort', () => cleanup())
+
+      // Send the current state right away; clients may connect before the job exists
+      const job = await jobService.getJob(jobId)
+      send(job ? toJobProgress(job) : { jobId, progress: 0 })
+      if (job && isJobFinished(job.status)) cleanup()
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    }
+  })
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { writeFile } from 'fs/promises'
+import { basename } from 'path'
+import { randomUUID } from 'crypto'
+import sharp from 'sharp'
+import { jobService, JobStatus, JobCancelledError, JobExistsError, INLINE_BUCKET, STAGING_BUCKET } from '../../../lib/job-service'
+import { sharpQueue } from '../../../lib/work-queue'
+import { stagingOutputPath } from '../../../lib/staging-store'
+import { createZip } from '../../../lib/zip-archive'
+import { decodeImageInput, CodecUnavailableError } from '../../../lib/image-codecs'
+import { serverConfig, fileTooLargeMessage } from '../../../lib/server-config'
+import {
+  generateResponsiveSet,
+  responsiveBaseName,
+  DEFAULT_WIDTHS,
+  MAX_WIDTHS
+} from '../../../lib/responsive-set'
+
+// Same limits as /api/optimize
+const MAX_WIDTH = serverConfig.maxImageDimension
+
+// Builds a srcset bundle from one image: every width in AVIF, WebP and JPEG,
+// zipped together with the <picture> snippet. The zip is served as the job
+// result; the response carries the snippet and a listing of the files.
+export async function POST(request: NextRequest) {
+  let jobId: string | undefined
+
+  try {
+    const formData = await request.formData()
+    const file = formData.get('image') as File
+    const quality = formData.get('quality') ? parseInt(formData.get('quality') as string) : 80
+    const widthsField = formData.get('widths') as string | null
+    const widths = widthsField ? widthsField.split(',').map((width) => parseInt(width.trim())) : DEFAULT_WIDTHS
+    const sizes = (formData.get('sizes') as string) || '100vw'
+    const alt = (formData.get('alt') as string) || ''
+    jobId = (formData.get('jobId') as string) || randomUUID()
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    if (isNaN(quality) || quality < 1 || quality > 100) {
+      return NextResponse.json({ error: 'quality must be between 1 and 100' }, { status: 400 })
+    }
+
+    if (widths.length === 0 || widths.length > MAX_WIDTHS || widths.some((width) => isNaN(width) || width < 1 || width > MAX_WIDTH)) {
+      return NextResponse.json({
+        error: `widths must be a comma-separated list of up to ${MAX_WIDTHS} widths between 1 and ${MAX_WIDTH}px`
+      }, { status: 400 })
+    }
+
+    if (file.size > serverConfig.maxImageSize) {
+      return NextResponse.json({ error: fileTooLargeMessage(serverConfig.maxImageSize) }, { status: 413 })
+    }
+
+    if (sharpQueue.isFull()) {
+      return NextResponse.json({
+        error: 'Server is busy processing other images. Please retry shortly.'
+      }, { status: 503, headers: { 'Retry-After': sharpQueue.retryAfter.toString() } })
+    }
+
+    await jobService.createJob({
+      jobId,
+      inputS3Location: { bucket: INLINE_BUCKET, key: file.name, size: file.size },
+      format: 'zip',
+      quality: quality.toString()
+    })
+    await jobService.updateJob(jobId, { status: JobStatus.PROCESSING, stage: 'starting' })
+
+    const upload = Buffer.from(await file.arrayBuffer())
+    const id = jobId
+
+    return await sharpQueue.run(async () => {
+      const abortController = new AbortController()
+      const stopWatchingCancel = jobService.onCancel(id, () => abortController.abort())
+
+      try {
+        // HEIC, JPEG XL and RAW decoding is heavy, so it waits for the slot too
+        const buffer = await decodeImageInput(upload, file.name)
+        const sharpInstance = sharp(buffer, {
+          limitInputPixels: serverConfig.maxInputPixels,
+          sequentialRead: true,
+          pages: 1
+        })
+
+        const set = await generateResponsiveSet(sharpInstance, {
+          baseName: responsiveBaseName(file.name),
+          widths,
+          quality,
+          sizes,
+          alt,
+          jobId: id,
+          signal: abortController.signal
+        })
+
+        jobService.updateProgress(id, 95, 'packing zip')
+        const zip = createZip([
+          ...set.variants.map((variant) => ({ name: variant.name, data: variant.data })),
+          { name: 'picture.html', data: Buffer.from(set.html + '\n') }
+        ])
+        const outputPath = stagingOutputPath('zip', 'archive')
+        await writeFile(outputPath, zip)
+
+        await jobService.updateJob(id, {
+          status: JobStatus.COMPLETED,
+          progress: 100,
+          stage: 'completed',
+          contentType: 'application/zip',
+          outputS3Location: { bucket: STAGING_BUCKET, key: basename(outputPath), size: zip.length }
+        })
+
+        return NextResponse.json({
+          jobId: id,
+          downloadUrl: `/api/jobs/${id}/result`,
+          zipSize: zip.length,
+          html: set.html,
+          files: set.variants.map(({ name, format, width, height, size }) => ({ name, format, width, height, size }))
+        })
+      } finally {
+        stopWatchingCancel()
+      }
+    }, id)
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      return NextResponse.json({ error: 'Processing cancelled' }, { status: 409 })
+    }
+
+    // Someone else's job: leave its record alone
+    if (error instanceof JobExistsError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Responsive set error:', error)
+
+    if (jobId) {
+      await jobService.updateJob(jobId, {
+        status: JobStatus.FAILED,
+        progress: 0,
+        error: error instanceof Error ? error.message : 'Responsive set generation failed'
+      })
+    }
+
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Responsive set generation failed'
+    }, { status: error instanceof CodecUnavailableError ? 415 : 500 })
+  }
+}
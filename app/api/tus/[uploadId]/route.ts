@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getUpload,
+  appendToUpload,
+  terminateUpload,
+  formatMetadata,
+  TusError,
+  TusUpload,
+  TUS_VERSION,
+  TUS_EXTENSIONS,
+  TUS_MAX_SIZE,
+} from '../../../../lib/tus-upload'
+
+type Params = { params: Promise<{ uploadId: string }> | { uploadId: string } }
+
+const TUS_HEADERS = { 'Tus-Resumable': TUS_VERSION }
+
+function versionMismatch(request: NextRequest): NextResponse | null {
+  if (request.headers.get('Tus-Resumable') === TUS_VERSION) return null
+  return new NextResponse(null, { status: 412, headers: { 'Tus-Version': TUS_VERSION } })
+}
+
+function uploadHeaders(upload: TusUpload): Record<string, string> {
+  return {
+    ...TUS_HEADERS,
+    'Upload-Offset': upload.offset.toString(),
+    'Upload-Expires': upload.expiresAt.toUTCString(),
+    ...(upload.completed ? { 'X-File-Name': upload.fileName } : {}),
+  }
+}
+
+// HEAD responses carry no body, so errors are reported through the status alone
+function errorResponse(error: unknown, fallback: string, withBody = true): NextResponse {
+  const status = error instanceof TusError ? error.status : 500
+  if (status === 500) console.error('tus upload error:', error)
+
+  const message = error instanceof TusError ? error.message : fallback
+  return withBody
+    ? NextResponse.json({ error: message }, { status, headers: TUS_HEADERS })
+    : new NextResponse(null, { status, headers: TUS_HEADERS })
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...TUS_HEADERS,
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS,
+      'Tus-Max-Size': TUS_MAX_SIZE.toString(),
+    },
+  })
+}
+
+export async function HEAD(request: NextRequest, { params }: Params) {
+  const mismatch = versionMismatch(request)
+  if (mismatch) return mismatch
+
+  const { uploadId } = await params
+
+  try {
+    const upload = await getUpload(uploadId)
+    if (!upload) return new NextResponse(null, { status: 404, headers: TUS_HEADERS })
+
+    return new NextResponse(null, {
+      status: 200,
+      headers: {
+        ...uploadHeaders(upload),
+        'Upload-Length': upload.length.toString(),
+        'Cache-Control': 'no-store',
+        ...(Object.keys(upload.metadata).length ? { 'Upload-Metadata': formatMetadata(upload.metadata) } : {}),
+      },
+    })
+  } catch (error) {
+    return errorResponse(error, 'Failed to read upload', false)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const mismatch = versionMismatch(request)
+  if (mismatch) return mismatch
+
+  if (request.headers.get('Content-Type') !== 'application/offset+octet-stream') {
+    return NextResponse.json({
+      error: 'Content-Type must be application/offset+octet-stream'
+    }, { status: 415, headers: TUS_HEADERS })
+  }
+
+  const offset = Number(request.headers.get('Upload-Offset'))
+  if (!request.headers.get('Upload-Offset') || !Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: 'Upload-Offset header is required' }, { status: 400, headers: TUS_HEADERS })
+  }
+
+  const { uploadId } = await params
+
+  try {
+    const upload = await getUpload(uploadId)
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404, headers: TUS_HEADERS })
+    }
+
+    await appendToUpload(upload, offset, request.body)
+    return new NextResponse(null, { status: 204, headers: uploadHeaders(upload) })
+  } catch (error) {
+    return errorResponse(error, 'Failed to write upload')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const mismatch = versionMismatch(request)
+  if (mismatch) return mismatch
+
+  const { uploadId } = await params
+
+  try {
+    const upload = await getUpload(uploadId)
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404, headers: TUS_HEADERS })
+    }
+
+    await terminateUpload(uploadId)
+    return new NextResponse(null, { status: 204, headers: TUS_HEADERS })
+  } catch (error) {
+    return errorResponse(error, 'Failed to terminate upload')
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createUpload,
+  parseMetadata,
+  TUS_VERSION,
+  TUS_EXTENSIONS,
+  TUS_MAX_SIZE,
+  TusError,
+} from '../../../lib/tus-upload'
+import { StagingError } from '../../../lib/staging-store'
+import { fileTooLargeMessage } from '../../../lib/server-config'
+
+// tus 1.0 upload endpoint. Completed uploads land in the staging area under
+// the name returned in X-File-Name, ready for /api/convert-*/process.
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Tus-Resumable': TUS_VERSION,
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS,
+      'Tus-Max-Size': TUS_MAX_SIZE.toString(),
+    },
+  })
+}
+
+export async function POST(request: NextRequest) {
+  if (request.headers.get('Tus-Resumable') !== TUS_VERSION) {
+    return new NextResponse(null, { status: 412, headers: { 'Tus-Version': TUS_VERSION } })
+  }
+
+  const headers = { 'Tus-Resumable': TUS_VERSION }
+
+  if (request.headers.get('Upload-Defer-Length')) {
+    return NextResponse.json({ error: 'Upload-Defer-Length is not supported' }, { status: 400, headers })
+  }
+
+  const length = Number(request.headers.get('Upload-Length'))
+  if (!request.headers.get('Upload-Length') || !Number.isInteger(length) || length < 0) {
+    return NextResponse.json({ error: 'Upload-Length header is required' }, { status: 400, headers })
+  }
+
+  if (length > TUS_MAX_SIZE) {
+    return NextResponse.json({ error: fileTooLargeMessage(TUS_MAX_SIZE) }, { status: 413, headers })
+  }
+
+  try {
+    const upload = await createUpload(length, parseMetadata(request.headers.get('Upload-Metadata')))
+
+    return new NextResponse(null, {
+      status: 201,
+      headers: {
+        ...headers,
+        'Location': `/api/tus/${upload.uploadId}`,
+        'Upload-Expires': upload.expiresAt.toUTCString(),
+        'X-File-Name': upload.fileName,
+      },
+    })
+  } catch (error) {
+    if (error instanceof StagingError || error instanceof TusError) {
+      return NextResponse.json({ error: error.message }, { status: error.status, headers })
+    }
+    console.error('tus create error:', error)
+    return NextResponse.json({ error: 'Failed to create upload' }, { status: 500, headers })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { writeFile, appendFile, readFile, unlink } from 'fs/promises'
-import { join } from 'path'
+import { writeChunk, getUploadSession, ChunkUploadError } from '../../../lib/chunk-upload'
+import { newStagingId, isStagingId, stagedFileName, uploadKindOf, StagingError } from '../../../lib/staging-store'
+import { serverConfig, fileTooLargeMessage } from '../../../lib/server-config'
 
 export async function POST(request: NextRequest) {
   try {
@@ -8,44 +9,93 @@ export async function POST(request: NextRequest) {
     const chunk = formData.get('chunk') as File
     const chunkIndex = parseInt(formData.get('chunkIndex') as string)
     const totalChunks = parseInt(formData.get('totalChunks') as string)
-    const fileId = formData.get('fileId') as string
-    const fileName = formData.get('fileName') as string
+    // The first chunk of a new upload comes without a fileId and gets one issued
+    const requestedFileId = formData.get('fileId') as string | null
+    const fileId = requestedFileId || newStagingId()
+    const fileName = formData.get('fileName') as string // Original name, used for its extension
+    const offset = parseInt(formData.get('offset') as string) // Byte position of the chunk in the file
+    const totalSize = formData.get('totalSize') ? parseInt(formData.get('totalSize') as string) : undefined
+    const checksum = (formData.get('checksum') as string) || undefined
+    const fileChecksum = (formData.get('fileChecksum') as string) || undefined
 
-    if (!chunk || isNaN(chunkIndex) || isNaN(totalChunks) || !fileId || !fileName) {
+    if (!chunk || isNaN(chunkIndex) || isNaN(totalChunks) || isNaN(offset) || !fileName) {
       return NextResponse.json({ error: 'Missing required parameters' }, { status: 400 })
     }
 
-    const tempFilePath = join('/tmp', `${fileId}.part`)
-    const chunkBuffer = Buffer.from(await chunk.arrayBuffer())
+    if (!isStagingId(fileId) || chunkIndex < 0 || chunkIndex >= totalChunks || offset < 0) {
+      return NextResponse.json({ error: 'Invalid chunk parameters' }, { status: 400 })
+    }
+
+    // Later chunks may only continue uploads the server started
+    if (requestedFileId && !(await getUploadSession(fileId))) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 })
+    }
 
-    // For first chunk, create new file; for others, append
-    if (chunkIndex === 0) {
-      await writeFile(tempFilePath, chunkBuffer)
-    } else {
-      await appendFile(tempFilePath, chunkBuffer)
+    // The declared name settles the kind of file, and with it the upload limit
+    const kind = uploadKindOf(fileName)
+    const maxSize = serverConfig.uploadLimits[kind]
+    if ((totalSize ?? 0) > maxSize || offset + chunk.size > maxSize) {
+      return NextResponse.json({ error: fileTooLargeMessage(maxSize, kind) }, { status: 413 })
     }
 
-    // If this is the last chunk, finalize the file
-    if (chunkIndex === totalChunks - 1) {
-      const finalPath = join('/tmp', fileName)
-      await writeFile(finalPath, await readFile(tempFilePath))
-      await unlink(tempFilePath)
-      
-      return NextResponse.json({ 
-        success: true, 
+    const data = Buffer.from(await chunk.arrayBuffer())
+
+    const session = await writeChunk({
+      fileId,
+      fileName: stagedFileName(fileName, kind, fileId),
+      kind,
+      chunkIndex,
+      totalChunks,
+      offset,
+      totalSize,
+      checksum,
+      fileChecksum,
+      data,
+    })
+
+    if (session.completed) {
+      return NextResponse.json({
+        success: true,
         fileId,
-        fileName,
-        completed: true 
+        fileName: session.fileName,
+        completed: true
       })
     }
 
-    return NextResponse.json({ 
-      success: true, 
+    return NextResponse.json({
+      success: true,
+      fileId,
       chunkIndex,
-      completed: false 
+      receivedChunks: session.receivedChunks.length,
+      completed: false
     })
   } catch (error) {
+    if (error instanceof ChunkUploadError || error instanceof StagingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Chunk upload error:', error)
     return NextResponse.json({ error: 'Chunk upload failed' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+// Lists the chunks the server already has so an interrupted upload can resume
+export async function GET(request: NextRequest) {
+  const fileId = request.nextUrl.searchParams.get('fileId')
+
+  if (!fileId || !isStagingId(fileId)) {
+    return NextResponse.json({ error: 'Valid fileId is required' }, { status: 400 })
+  }
+
+  const session = await getUploadSession(fileId)
+  if (!session) {
+    return NextResponse.json({ error: 'Upload not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    fileId: session.fileId,
+    fileName: session.fileName,
+    totalChunks: session.totalChunks,
+    receivedChunks: session.receivedChunks,
+    completed: session.completed,
+  })
+}
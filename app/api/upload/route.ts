@@ -1,87 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { writeFile } from 'fs/promises'
-import { join } from 'path'
+import { unlink } from 'fs/promises'
+import { basename } from 'path'
+import { streamMultipartToDisk, UploadTooLargeError, UploadTimeoutError } from '../../../lib/multipart-upload'
+import { stagingPath, stagedFileName, normalizeExtension, newStagingId, isFileKind, StagingError, StagedFileKind } from '../../../lib/staging-store'
+import { serverConfig, fileTooLargeMessage, MAX_UPLOAD_SIZE } from '../../../lib/server-config'
 
-// File size limits in bytes
-const FILE_SIZE_LIMITS = {
-  audio: 200 * 1024 * 1024, // 200MB
-  video: 500 * 1024 * 1024, // 500MB
-  image: 10 * 1024 * 1024, // 10MB
+const FILE_SIZE_LIMITS = serverConfig.uploadLimits
+
+function tooLarge(limit: number, fileType?: string) {
+  return NextResponse.json({ error: fileTooLargeMessage(limit, fileType) }, { status: 413 })
 }
 
 export async function POST(request: NextRequest) {
   console.log('Upload API called with content length:', request.headers.get('content-length'))
+
+  // Reject obviously oversized requests before reading any of the body
+  const contentLength = Number(request.headers.get('content-length'))
+  if (contentLength > MAX_UPLOAD_SIZE + 1024 * 1024) {
+    return tooLarge(MAX_UPLOAD_SIZE)
+  }
+
+  if (!request.headers.get('content-type')?.includes('multipart/form-data')) {
+    return NextResponse.json({ error: 'Expected multipart/form-data' }, { status: 400 })
+  }
+
+  // Random, so concurrent uploads never collide
+  const fileId = newStagingId()
+  // Kind whose limit applies while streaming, if fileType came first; named in the 413
+  let streamingKind: StagedFileKind | undefined
+
   try {
-    // Add a timeout to ensure we don't hang indefinitely
-    const formDataPromise = request.formData()
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Request timed out')), 120000) // 2 minute timeout
+    // The file goes straight to disk; send fileType before the file so its own
+    // limit applies while streaming rather than only afterwards
+    const { fields, file } = await streamMultipartToDisk(request, {
+      fileField: 'file',
+      // Rejects unsupported extensions before any bytes are written
+      destination: (originalName, fields) => stagingPath(
+        stagedFileName(originalName, isFileKind(fields.fileType) ? fields.fileType : undefined, fileId)
+      ),
+      maxFileSize: (fields) => {
+        streamingKind = isFileKind(fields.fileType) ? fields.fileType : undefined
+        return streamingKind ? FILE_SIZE_LIMITS[streamingKind] : MAX_UPLOAD_SIZE
+      },
     })
 
-    const formData = await Promise.race([formDataPromise, timeoutPromise]) as FormData
-    console.log('FormData parsed successfully')
-
-    const file = formData.get('file') as File
-    const fileType = formData.get('fileType') as string // 'audio', 'video', or 'image'
+    const fileType = fields.fileType // 'audio', 'video', or 'image'
 
     if (!file) {
       console.log('No file provided in request')
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
-    console.log(`File received: ${file.name}, size: ${file.size}, type: ${fileType}`)
+    console.log(`File received: ${file.originalName}, size: ${file.size}, type: ${fileType}`)
 
-    if (!fileType || !['audio', 'video', 'image'].includes(fileType)) {
+    if (!isFileKind(fileType)) {
       console.log(`Invalid file type: ${fileType}`)
+      await unlink(file.path).catch(() => {})
       return NextResponse.json({ error: 'Invalid file type' }, { status: 400 })
     }
 
-    // Check file size
-    if (file.size > FILE_SIZE_LIMITS[fileType as keyof typeof FILE_SIZE_LIMITS]) {
-      console.log(`File too large: ${file.size} bytes, limit: ${FILE_SIZE_LIMITS[fileType as keyof typeof FILE_SIZE_LIMITS]} bytes`)
-      return NextResponse.json({
-        error: `File too large. Maximum size for ${fileType} is ${FILE_SIZE_LIMITS[fileType as keyof typeof FILE_SIZE_LIMITS] / (1024 * 1024)}MB`
-      }, { status: 400 })
-    }
-
-    // Generate a unique file ID
-    const fileId = Date.now().toString()
-    const extension = file.name.split('.').pop()
-    const fileName = `${fileId}.${extension}`
-    const filePath = join('/tmp', fileName)
-
-    console.log(`Writing file to: ${filePath}`)
-
+    // The extension was only checked against every kind if fileType came after the file
     try {
-      // Get file buffer with timeout
-      console.log('Getting file buffer...')
-      const arrayBufferPromise = file.arrayBuffer()
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('File buffer extraction timed out')), 60000) // 1 minute timeout
-      })
+      normalizeExtension(file.originalName, fileType)
+    } catch (error) {
+      await unlink(file.path).catch(() => {})
+      throw error
+    }
 
-      const arrayBuffer = await Promise.race([arrayBufferPromise, timeoutPromise]) as ArrayBuffer
-      console.log(`File buffer obtained, size: ${arrayBuffer.byteLength} bytes`)
+    // Check file size again in case fileType arrived after the file
+    if (file.size > FILE_SIZE_LIMITS[fileType]) {
+      console.log(`File too large: ${file.size} bytes, limit: ${FILE_SIZE_LIMITS[fileType]} bytes`)
+      await unlink(file.path).catch(() => {})
+      return tooLarge(FILE_SIZE_LIMITS[fileType], fileType)
+    }
 
-      // Write file to temporary storage
-      await writeFile(filePath, Buffer.from(arrayBuffer))
-      console.log('File written successfully')
+    console.log(`File written to: ${file.path}`)
 
-      // Return the file ID for later processing
-      return NextResponse.json({
-        success: true,
-        fileId,
-        fileName,
-        originalName: file.name,
-        size: file.size,
-        type: file.type
-      })
-    } catch (error) {
-      console.error('Error writing file:', error)
-      return NextResponse.json({ error: `File writing failed: ${error.message}` }, { status: 500 })
-    }
+    // Return the file ID for later processing
+    return NextResponse.json({
+      success: true,
+      fileId,
+      fileName: basename(file.path),
+      originalName: file.originalName,
+      size: file.size,
+      type: file.mimeType
+    })
   } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      console.log(`Upload aborted after exceeding ${error.limit} bytes`)
+      return tooLarge(error.limit, streamingKind)
+    }
+    if (error instanceof StagingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof UploadTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 408 })
+    }
     console.error('File upload error:', error)
     return NextResponse.json({ error: 'File upload failed' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -4,8 +4,13 @@ import { useState, useRef, useEffect } from 'react'
 import AudioUpload from '../../components/audio/AudioUpload'
 import AudioControls from '../../components/audio/AudioControls'
 import AudioPreview from '../../components/audio/AudioPreview'
+import { waitForJob, fetchJobResult, cancelJob } from '../../lib/job-client'
+import { uploadFileInChunks } from '../../lib/upload-client'
+import { formatLimit } from '../../lib/config-client'
+import { useServerLimits } from '../../components/useServerLimits'
 
 export default function AudioConverter() {
+  const limits = useServerLimits()
   const [originalFile, setOriginalFile] = useState<File | null>(null)
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null)
   const [convertedUrl, setConvertedUrl] = useState<string | null>(null)
@@ -17,6 +22,11 @@ export default function AudioConverter() {
   const [progress, setProgress] = useState<number>(0)
   const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<number | null>(null)
   const [phase, setPhase] = useState<'uploading' | 'converting'>('uploading')
+  const jobIdRef = useRef<string | null>(null)
+  const uploadAbortRef = useRef<AbortController | null>(null)
+  const cancelledRef = useRef<boolean>(false)
+  // Issued by the server for the selected file, so a failed or cancelled upload resumes where it stopped
+  const uploadIdRef = useRef<string | null>(null)
 
 
 
@@ -25,46 +35,11 @@ export default function AudioConverter() {
     setOriginalFile(file)
     setOriginalSize(file.size)
     setUploadedFileName(null) // Reset uploaded file name for new file
+    uploadIdRef.current = null
     setConvertedUrl(null)
     setConvertedSize(0)
   }
 
-  const uploadFileInChunks = async (file: File): Promise<string> => {
-    const chunkSize = 1024 * 1024 // 1MB chunks
-    const totalChunks = Math.ceil(file.size / chunkSize)
-    const fileId = Date.now().toString()
-    const extension = file.name.split('.').pop()
-    const fileName = `${fileId}.${extension}`
-
-    for (let i = 0; i < totalChunks; i++) {
-      const start = i * chunkSize
-      const end = Math.min(start + chunkSize, file.size)
-      const chunk = file.slice(start, end)
-
-      const formData = new FormData()
-      formData.append('chunk', chunk)
-      formData.append('chunkIndex', i.toString())
-      formData.append('totalChunks', totalChunks.toString())
-      formData.append('fileId', fileId)
-      formData.append('fileName', fileName)
-
-      const response = await fetch('/api/upload-chunk', {
-        method: 'POST',
-        body: formData,
-      })
-
-      if (!response.ok) {
-        throw new Error(`Chunk ${i} upload failed`)
-      }
-
-      // Update upload progress
-      const uploadProgress = Math.round(((i + 1) / totalChunks) * 100)
-      setProgress(uploadProgress)
-    }
-
-    return fileName
-  }
-
   const convertAudio = async () => {
     if (!originalFile) {
       alert('Please select an audio file first.')
@@ -73,19 +48,26 @@ export default function AudioConverter() {
 
     setIsConverting(true)
     setProgress(0)
+    cancelledRef.current = false
+    jobIdRef.current = null
 
-    let progressInterval = null
     try {
       let fileName = uploadedFileName
       
       // Only upload if file hasn't been uploaded yet
       if (!uploadedFileName) {
         setPhase('uploading')
-        fileName = await uploadFileInChunks(originalFile)
+        uploadAbortRef.current = new AbortController()
+        fileName = await uploadFileInChunks(originalFile, {
+          fileId: uploadIdRef.current || undefined,
+          onFileId: (fileId) => { uploadIdRef.current = fileId },
+          onProgress: setProgress,
+          signal: uploadAbortRef.current.signal,
+        })
         setUploadedFileName(fileName)
       }
       
-      // Phase 2: Convert the uploaded file
+      // Phase 2: Convert the uploaded file in the background
       setPhase('converting')
       setProgress(0)
       
@@ -98,54 +80,58 @@ export default function AudioConverter() {
           fileName,
           format,
           quality,
+          async: true,
         }),
       })
-      
-      const jobId = processResponse.headers.get('X-Job-Id')
-      
-      if (jobId) {
-        progressInterval = setInterval(async () => {
-          try {
-            const progressResponse = await fetch(`/api/progress?jobId=${jobId}`)
-            if (progressResponse.ok) {
-              const data = await progressResponse.json()
-              setProgress(data.progress)
-              
-              if (data.estimatedTimeRemaining !== undefined) {
-                setEstimatedTimeRemaining(data.estimatedTimeRemaining)
-              }
-              
-              if (data.progress >= 100) {
-                clearInterval(progressInterval)
-                progressInterval = null
-              }
-            }
-          } catch (err) {
-            console.error('Progress fetch error:', err)
-          }
-        }, 1000)
-      }
 
-      if (processResponse.ok) {
-        const blob = await processResponse.blob()
-        const url = URL.createObjectURL(blob)
-        setConvertedUrl(url)
-        setConvertedSize(blob.size)
-      } else {
+      if (!processResponse.ok) {
         const errorData = await processResponse.json().catch(() => ({ error: 'Conversion failed' }))
         alert(`Conversion failed: ${errorData.error}`)
+        return
       }
+
+      const { jobId } = await processResponse.json()
+      jobIdRef.current = jobId
+      if (cancelledRef.current) {
+        await cancelJob(jobId)
+        return
+      }
+
+      const finalProgress = await waitForJob(jobId, (data) => {
+        setProgress(data.progress)
+        if (data.estimatedTimeRemaining !== undefined) {
+          setEstimatedTimeRemaining(data.estimatedTimeRemaining)
+        }
+      })
+
+      if (finalProgress.status === 'cancelled') return
+      if (finalProgress.status !== 'completed') {
+        alert(`Conversion failed: ${finalProgress.error || 'Unknown error'}`)
+        return
+      }
+
+      const blob = await fetchJobResult(jobId)
+      const url = URL.createObjectURL(blob)
+      setConvertedUrl(url)
+      setConvertedSize(blob.size)
     } catch (error) {
+      if (cancelledRef.current) return
       console.error('Conversion failed:', error)
       alert('Conversion failed. Please try again.')
     } finally {
-      if (progressInterval) {
-        clearInterval(progressInterval)
-      }
+      uploadAbortRef.current = null
       setIsConverting(false)
     }
   }
 
+  const cancelConversion = () => {
+    cancelledRef.current = true
+    uploadAbortRef.current?.abort()
+    if (jobIdRef.current) {
+      cancelJob(jobIdRef.current)
+    }
+  }
+
   const handleDownload = () => {
     if (convertedUrl && originalFile) {
       const nameWithoutExt = originalFile.name.replace(/\.[^/.]+$/, '')
@@ -193,7 +179,7 @@ export default function AudioConverter() {
             <div className="bg-gray-800 p-6 rounded-lg border border-gray-700">
               <div className="text-3xl mb-3">📁</div>
               <h3 className="text-lg font-semibold text-white mb-2">Large Files</h3>
-              <p className="text-gray-400">Support for audio files up to 200MB with reliable upload.</p>
+              <p className="text-gray-400">Support for audio files{limits && ` up to ${formatLimit(limits.uploadLimits.audio)}`} with reliable upload.</p>
             </div>
           </div>
         </>
@@ -214,6 +200,7 @@ export default function AudioConverter() {
             onFormatChange={setFormat}
             onQualityChange={setQuality}
             onConvert={convertAudio}
+            onCancel={cancelConversion}
             isConverting={isConverting}
             progress={progress}
             estimatedTimeRemaining={estimatedTimeRemaining}
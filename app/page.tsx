@@ -5,15 +5,71 @@ import ImageUpload from "../components/ImageUpload";
 import ImageComparison from "../components/ImageComparison";
 import ControlPanel from "../components/ControlPanel";
 import BatchProcessor from "../components/BatchProcessor";
+import ResponsivePanel from "../components/ResponsivePanel";
+import MetadataViewer from "../components/MetadataViewer";
+import TransformControls from "../components/TransformControls";
+import WatermarkControls from "../components/WatermarkControls";
 import ProgressBar from "../components/ProgressBar";
+import { subscribeToProgress, newJobId } from "../lib/job-client";
+import { needsServerDecode } from "../lib/image-signature";
+import { appendWatermark, WatermarkSettings } from "../lib/watermark-client";
+import type { FormatCandidate } from "../lib/image-encoder";
+import type { MetadataMode, MetadataReport } from "../lib/image-metadata";
+import type { ColorProfileMode } from "../lib/color-profile";
+import type { ImageTransforms } from "../lib/image-transform";
+import type { ImageAdjustments } from "../lib/image-adjustments";
+import type { SocialPresetId, CropStrategy } from "../lib/social-presets";
+
+const NO_EDITS: ImageTransforms = {
+  autoOrient: true,
+  rotate: 0,
+  background: "#ffffff",
+  flipHorizontal: false,
+  flipVertical: false,
+};
+
+const NO_ADJUSTMENTS: ImageAdjustments = {
+  sharpen: 0,
+  blur: 0,
+  brightness: 1,
+  saturation: 1,
+  contrast: 1,
+  grayscale: false,
+  normalize: false,
+  trim: false,
+};
 
 export default function Home() {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
+  // JPEG rendition for originals the browser can't display (HEIC, JPEG XL, RAW)
+  const [originalPreview, setOriginalPreview] = useState<string | null>(null);
   const [optimizedImage, setOptimizedImage] = useState<string | null>(null);
   const [originalSize, setOriginalSize] = useState<number>(0);
   const [optimizedSize, setOptimizedSize] = useState<number>(0);
   const [format, setFormat] = useState<string>("webp");
   const [quality, setQuality] = useState<number>(80);
+  const [targetSize, setTargetSize] = useState<number | undefined>();
+  const [allowDownscale, setAllowDownscale] = useState<boolean>(false);
+  const [minSsim, setMinSsim] = useState<number | undefined>();
+  const [lossless, setLossless] = useState<boolean>(false);
+  const [allowLarger, setAllowLarger] = useState<boolean>(false);
+  // Size of the smallest attempt when the server kept the original instead
+  const [keptOriginal, setKeptOriginal] = useState<number | null>(null);
+  const [qualityUsed, setQualityUsed] = useState<number | null>(null);
+  const [ssimScore, setSsimScore] = useState<number | null>(null);
+  const [formatUsed, setFormatUsed] = useState<string | null>(null);
+  const [formatCandidates, setFormatCandidates] = useState<FormatCandidate[] | null>(null);
+  const [metadataMode, setMetadataMode] = useState<MetadataMode>("strip");
+  const [colorProfile, setColorProfile] = useState<ColorProfileMode>("srgb");
+  const [page, setPage] = useState<number | undefined>();
+  const [transforms, setTransforms] = useState<ImageTransforms>(NO_EDITS);
+  const [cropping, setCropping] = useState(false);
+  const [preset, setPreset] = useState<SocialPresetId | undefined>();
+  const [cropStrategy, setCropStrategy] = useState<CropStrategy>("attention");
+  const [watermark, setWatermark] = useState<WatermarkSettings | null>(null);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(NO_ADJUSTMENTS);
+  const [animation, setAnimation] = useState<{ frames: number; durationMs: number; preserved: boolean } | null>(null);
+  const [originalMetadata, setOriginalMetadata] = useState<MetadataReport | null>(null);
   const [width, setWidth] = useState<number | undefined>();
   const [height, setHeight] = useState<number | undefined>();
   const [maintainAspect, setMaintainAspect] = useState<boolean>(true);
@@ -28,31 +84,6 @@ export default function Home() {
   const [progressStatus, setProgressStatus] = useState<string>("Processing...");
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
 
-  const pollProgress = async (jobId: string) => {
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/progress?jobId=${jobId}`);
-        if (response.ok) {
-          const data = await response.json();
-          setProgress(data.progress || 0);
-          setProgressStatus(data.status || "Processing...");
-
-          if (
-            data.progress >= 100 ||
-            data.status === "completed" ||
-            data.status === "error"
-          ) {
-            clearInterval(pollInterval);
-          }
-        }
-      } catch (error) {
-        console.error("Progress polling error:", error);
-      }
-    }, 200); // Poll every 200ms for smooth progress updates
-
-    return pollInterval;
-  };
-
   const processImage = async (file?: File) => {
     if (!originalImage && !file) return;
 
@@ -61,13 +92,18 @@ export default function Home() {
     setProgressStatus("Starting...");
 
     // Generate unique job ID
-    const jobId = `job_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
+    const jobId = newJobId("job");
     setCurrentJobId(jobId);
 
-    // Start progress polling
-    const pollInterval = await pollProgress(jobId);
+    // Follow progress (streamed, or polled every 200ms without EventSource)
+    const stopProgress = subscribeToProgress(
+      jobId,
+      (data) => {
+        setProgress(data.progress || 0);
+        setProgressStatus(data.status || "Processing...");
+      },
+      200
+    );
 
     try {
       const formData = new FormData();
@@ -76,22 +112,90 @@ export default function Home() {
       } else {
         const response = await fetch(originalImage!);
         const blob = await response.blob();
-        formData.append("image", blob);
+        // Keep the name: RAW formats are only recognised by their extension
+        formData.append("image", blob, originalFilename);
       }
       
       formData.append("format", format);
       formData.append("quality", quality.toString());
+      formData.append("metadata", metadataMode);
+      formData.append("colorProfile", colorProfile);
+      if (page !== undefined) formData.append("page", page.toString());
+      if (transforms.autoOrient) formData.append("autoOrient", "true");
+      if (transforms.crop) {
+        const { left, top, width: cropWidth, height: cropHeight } = transforms.crop;
+        formData.append("crop", [left, top, cropWidth, cropHeight].join(","));
+      }
+      if (transforms.rotate) {
+        formData.append("rotate", transforms.rotate.toString());
+        formData.append("background", transforms.background);
+      }
+      if (transforms.flipHorizontal) formData.append("flipHorizontal", "true");
+      if (transforms.flipVertical) formData.append("flipVertical", "true");
+      if (adjustments.sharpen) formData.append("sharpen", adjustments.sharpen.toString());
+      if (adjustments.blur) formData.append("blur", adjustments.blur.toString());
+      if (adjustments.brightness !== 1) formData.append("brightness", adjustments.brightness.toString());
+      if (adjustments.saturation !== 1) formData.append("saturation", adjustments.saturation.toString());
+      if (adjustments.contrast !== 1) formData.append("contrast", adjustments.contrast.toString());
+      if (adjustments.grayscale) formData.append("grayscale", "true");
+      if (adjustments.normalize) formData.append("normalize", "true");
+      if (adjustments.trim) formData.append("trim", "true");
+      if (adjustments.flatten) formData.append("flatten", adjustments.flatten);
+      await appendWatermark(formData, watermark);
+      if (targetSize) {
+        formData.append("targetSize", targetSize.toString());
+        formData.append("allowDownscale", allowDownscale.toString());
+      } else if (minSsim) {
+        formData.append("minSsim", minSsim.toString());
+      } else if (lossless) {
+        formData.append("lossless", "true");
+      }
+      if (allowLarger) formData.append("allowLarger", "true");
       formData.append("jobId", jobId);
-      if (width) formData.append("width", width.toString());
-      if (height) formData.append("height", height.toString());
+      if (preset) {
+        formData.append("preset", preset);
+        formData.append("cropStrategy", cropStrategy);
+      } else {
+        if (width) formData.append("width", width.toString());
+        if (height) formData.append("height", height.toString());
+      }
 
       const response = await fetch("/api/optimize", {
         method: "POST",
         body: formData,
       });
 
-      if (response.ok) {
+      if (response.ok && response.headers.get("X-Result") === "original-kept") {
+        const kept = await response.json();
+        setKeptOriginal(kept.smallestSize);
+        setQualityUsed(null);
+        setSsimScore(null);
+        setFormatUsed(null);
+        setFormatCandidates(null);
+        setOptimizedImage(originalPreview ?? originalImage);
+        setOptimizedSize(originalSize);
+        setProgress(100);
+        setProgressStatus("Original kept");
+      } else if (response.ok) {
         const blob = await response.blob();
+        setKeptOriginal(null);
+        const qualityHeader = response.headers.get("X-Quality-Used");
+        setQualityUsed(qualityHeader ? Number(qualityHeader) : null);
+        const ssimHeader = response.headers.get("X-SSIM");
+        setSsimScore(ssimHeader ? Number(ssimHeader) : null);
+        setFormatUsed(response.headers.get("X-Format-Used"));
+        const candidatesHeader = response.headers.get("X-Format-Sizes");
+        setFormatCandidates(candidatesHeader ? JSON.parse(candidatesHeader) : null);
+        const framesHeader = response.headers.get("X-Frames");
+        setAnimation(
+          framesHeader
+            ? {
+                frames: Number(framesHeader),
+                durationMs: Number(response.headers.get("X-Animation-Duration")),
+                preserved: response.headers.get("X-Animation") === "preserved",
+              }
+            : null
+        );
         const optimizedUrl = URL.createObjectURL(blob);
         setOptimizedImage(optimizedUrl);
         setOptimizedSize(blob.size);
@@ -108,8 +212,6 @@ export default function Home() {
         if (errorMessage.includes("File too large")) {
           errorMessage +=
             "\n\nTip: Try resizing your image to smaller dimensions first.";
-        } else if (errorMessage.includes("dimensions too large")) {
-          errorMessage += "\n\nTip: Maximum supported dimension is 8000px.";
         }
 
         alert(`Processing failed: ${errorMessage}`);
@@ -124,7 +226,7 @@ export default function Home() {
       setProgress(0);
       setProgressStatus("Error occurred");
     } finally {
-      clearInterval(pollInterval);
+      stopProgress();
       setIsProcessing(false);
       setCurrentJobId(null);
     }
@@ -132,8 +234,8 @@ export default function Home() {
 
   const resizeImageIfNeeded = (file: File): Promise<File> => {
     return new Promise((resolve) => {
-      if (file.size <= 10 * 1024 * 1024) {
-        // 10MB or less, no resize needed
+      if (file.size <= 10 * 1024 * 1024 || needsServerDecode(file.name)) {
+        // 10MB or less, or a format the canvas can't decode, no resize needed
         resolve(file);
         return;
       }
@@ -182,13 +284,46 @@ export default function Home() {
     setOriginalSize(processedFile.size);
     setOriginalFilename(file.name);
     setBatchFiles(null);
-
-    // Get image dimensions
+    setOriginalMetadata(null);
+    setPage(undefined);
+    setTransforms(NO_EDITS);
+    setCropping(false);
+    setKeptOriginal(null);
+    // Video output only exists for animated GIFs
+    setFormat((current) => (current === "mp4" || current === "webm" ? "webp" : current));
+
+    // Read metadata from the file as uploaded; the client-side resize above drops it
+    const metadataForm = new FormData();
+    metadataForm.append("image", file);
+    fetch("/api/metadata", { method: "POST", body: metadataForm })
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setOriginalMetadata)
+      .catch((error) => console.error("Metadata read failed:", error));
+
+    // Get image dimensions, from a server-made preview if the browser can't decode the file
     const img = new Image();
     img.onload = () => {
       setOriginalDimensions({ width: img.width, height: img.height });
     };
-    img.src = url;
+    setOriginalPreview(null);
+    if (needsServerDecode(file.name)) {
+      const previewForm = new FormData();
+      previewForm.append("image", file);
+      previewForm.append("format", "jpeg");
+      previewForm.append("quality", "90");
+      // Upright, like the browser shows other images, so crop boxes line up
+      previewForm.append("autoOrient", "true");
+      fetch("/api/optimize", { method: "POST", body: previewForm })
+        .then(async (response) => {
+          if (!response.ok) throw new Error((await response.json()).error);
+          const previewUrl = URL.createObjectURL(await response.blob());
+          setOriginalPreview(previewUrl);
+          img.src = previewUrl;
+        })
+        .catch((error) => console.error("Preview failed:", error));
+    } else {
+      img.src = url;
+    }
 
     await processImage(processedFile);
   };
@@ -223,8 +358,13 @@ export default function Home() {
     if (optimizedImage) {
       const nameWithoutExt = originalFilename.replace(/\.[^/.]+$/, "");
       const link = document.createElement("a");
-      link.href = optimizedImage;
-      link.download = `${nameWithoutExt}.${format}`;
+      if (keptOriginal !== null) {
+        link.href = originalImage!;
+        link.download = originalFilename;
+      } else {
+        link.href = optimizedImage;
+        link.download = `${nameWithoutExt}.${formatUsed || format}`;
+      }
       link.click();
     }
   };
@@ -239,10 +379,24 @@ export default function Home() {
             quality={quality}
             width={width}
             height={height}
+            metadataMode={metadataMode}
+            transforms={transforms}
+            cropStrategy={cropStrategy}
+            watermark={watermark}
+            adjustments={adjustments}
+            lossless={lossless}
+            allowLarger={allowLarger}
             onBack={handleBackFromBatch}
             onFormatChange={setFormat}
             onQualityChange={setQuality}
             onPercentageResize={handlePercentageResize}
+            onMetadataModeChange={setMetadataMode}
+            onTransformsChange={setTransforms}
+            onCropStrategyChange={setCropStrategy}
+            onWatermarkChange={setWatermark}
+            onAdjustmentsChange={setAdjustments}
+            onLosslessChange={setLossless}
+            onAllowLargerChange={setAllowLarger}
           />
         ) : !originalImage ? (
           <>
@@ -374,10 +528,22 @@ export default function Home() {
               </button>
             </div>
             <ImageComparison
-              originalImage={originalImage}
+              originalImage={originalPreview ?? originalImage}
               optimizedImage={optimizedImage}
               originalSize={originalSize}
               optimizedSize={optimizedSize}
+              ssim={ssimScore}
+              formatCandidates={formatCandidates}
+              formatUsed={formatUsed}
+              animation={animation}
+              crop={transforms.crop}
+              cropping={cropping}
+              watermark={watermark}
+              keptOriginal={keptOriginal}
+              onCropChange={(crop) => {
+                setTransforms({ ...transforms, crop });
+                setTimeout(() => processImage(), 100);
+              }}
               isProcessing={isProcessing}
               progress={progress}
               progressStatus={progressStatus}
@@ -388,9 +554,73 @@ export default function Home() {
               width={width}
               height={height}
               maintainAspect={maintainAspect}
+              targetSize={targetSize}
+              allowDownscale={allowDownscale}
+              minSsim={minSsim}
+              lossless={lossless}
+              allowLarger={allowLarger}
+              qualityUsed={qualityUsed}
+              metadataMode={metadataMode}
+              colorProfile={colorProfile}
+              videoFormats={originalMetadata?.animation != null && originalMetadata.format === "gif"}
+              pageCount={originalMetadata?.animation ? 1 : originalMetadata?.pages}
+              page={page}
+              preset={preset}
+              cropStrategy={cropStrategy}
+              adjustments={adjustments}
+              onAdjustmentsChange={(newAdjustments) => {
+                setAdjustments(newAdjustments);
+                setTimeout(() => processImage(), 100);
+              }}
+              onPresetChange={(newPreset) => {
+                setPreset(newPreset);
+                setTimeout(() => processImage(), 100);
+              }}
+              onCropStrategyChange={(strategy) => {
+                setCropStrategy(strategy);
+                setTimeout(() => processImage(), 100);
+              }}
+              onPageChange={(newPage) => {
+                setPage(newPage);
+                setTimeout(() => processImage(), 100);
+              }}
+              onMetadataModeChange={(newMode) => {
+                setMetadataMode(newMode);
+                setTimeout(() => processImage(), 100);
+              }}
+              onColorProfileChange={(newMode) => {
+                setColorProfile(newMode);
+                setTimeout(() => processImage(), 100);
+              }}
+              onTargetSizeChange={(newTargetSize) => {
+                setTargetSize(newTargetSize);
+                if (newTargetSize !== undefined) setMinSsim(undefined);
+                setTimeout(() => processImage(), 100);
+              }}
+              onMinSsimChange={(newMinSsim) => {
+                setMinSsim(newMinSsim);
+                if (newMinSsim !== undefined) setTargetSize(undefined);
+                setTimeout(() => processImage(), 100);
+              }}
+              onAllowLargerChange={(allow) => {
+                setAllowLarger(allow);
+                setTimeout(() => processImage(), 100);
+              }}
+              onLosslessChange={(newLossless) => {
+                setLossless(newLossless);
+                setTimeout(() => processImage(), 100);
+              }}
+              onAllowDownscaleChange={(allow) => {
+                setAllowDownscale(allow);
+                setTimeout(() => processImage(), 100);
+              }}
               onFormatChange={(newFormat) => {
-
                 setFormat(newFormat);
+                // The format race has no byte-budget mode
+                if (newFormat === "auto") {
+                  setTargetSize(undefined);
+                  setLossless(false);
+                }
                 setTimeout(() => processImage(), 100);
               }}
               onQualityChange={(newQuality) => {
@@ -423,6 +653,34 @@ export default function Home() {
                 }
               }}
             />
+            <div className="mt-6 bg-gray-800 rounded-xl p-4">
+              <h3 className="font-medium mb-3">Crop, Rotate & Flip</h3>
+              <TransformControls
+                transforms={transforms}
+                cropping={cropping}
+                onCroppingChange={setCropping}
+                onChange={(newTransforms) => {
+                  setTransforms(newTransforms);
+                  setTimeout(() => processImage(), 100);
+                }}
+              />
+            </div>
+            <div className="mt-6 bg-gray-800 rounded-xl p-4">
+              <h3 className="font-medium mb-3">Watermark</h3>
+              <WatermarkControls
+                watermark={watermark}
+                onChange={(newWatermark) => {
+                  setWatermark(newWatermark);
+                  setTimeout(() => processImage(), 100);
+                }}
+              />
+            </div>
+            <MetadataViewer metadata={originalMetadata} />
+            <ResponsivePanel
+              originalImage={originalImage}
+              originalFilename={originalFilename}
+              quality={quality}
+            />
 
             {/* Download Button */}
             <div className="mt-6 text-center">
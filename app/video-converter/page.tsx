@@ -4,6 +4,7 @@ import { useState, useRef, useEffect } from 'react'
 import VideoUpload from '../../components/video/VideoUpload'
 import VideoControls from '../../components/video/VideoControls'
 import VideoPreview from '../../components/video/VideoPreview'
+import { waitForJob, fetchJobResult, cancelJob } from '../../lib/job-client'
 
 export default function VideoConverter() {
   const [originalFile, setOriginalFile] = useState<File | null>(null)
@@ -21,6 +22,9 @@ export default function VideoConverter() {
   const [phase, setPhase] = useState<'uploading' | 'converting'>('uploading')
   const [ffmpegLoaded, setFfmpegLoaded] = useState<boolean>(false)
   const ffmpegRef = useRef<any>(null)
+  const jobIdRef = useRef<string | null>(null)
+  const uploadAbortRef = useRef<AbortController | null>(null)
+  const cancelledRef = useRef<boolean>(false)
 
   // Load FFmpeg WASM for local development
   useEffect(() => {
@@ -92,12 +96,13 @@ export default function VideoConverter() {
     setIsConverting(true)
     setProgress(0)
     setPhase('uploading')
+    cancelledRef.current = false
+    jobIdRef.current = null
 
     // Use client-side FFmpeg in development, server-side in production
     const isProduction = process.env.NODE_ENV === 'production' || typeof window === 'undefined'
     const useClientFFmpeg = !isProduction && ffmpegLoaded && ffmpegRef.current
     
-    let progressInterval = null
     try {
       // Client-side FFmpeg for local development
       if (useClientFFmpeg) {
@@ -169,15 +174,18 @@ export default function VideoConverter() {
       // Step 1: Upload the file
       setProgress(1) // Show initial progress
       const uploadFormData = new FormData()
-      uploadFormData.append('file', originalFile)
+      // fileType goes first so the server can apply the video limit while streaming
       uploadFormData.append('fileType', 'video')
+      uploadFormData.append('file', originalFile)
       
       let uploadResponse
       try {
         console.log(`Uploading video file: ${originalFile.name}, size: ${originalFile.size} bytes`)
+        uploadAbortRef.current = new AbortController()
         uploadResponse = await fetch('/api/upload', {
           method: 'POST',
           body: uploadFormData,
+          signal: uploadAbortRef.current.signal,
         })
         
         if (!uploadResponse.ok) {
@@ -200,7 +208,7 @@ export default function VideoConverter() {
       setProgress(20) // Show upload complete
       setPhase('converting') // Switch to converting phase
       
-      // Step 2: Process the file
+      // Step 2: Process the file in the background
       const processResponse = await fetch('/api/convert-video/process', {
         method: 'POST',
         headers: {
@@ -212,77 +220,66 @@ export default function VideoConverter() {
           quality,
           resolution,
           bitrate,
-          fps
+          fps,
+          async: true
         }),
       })
-      
-      // Get job ID from response headers
-      const jobId = processResponse.headers.get('X-Job-Id')
-      
-      // Start progress polling if we have a job ID
-      if (jobId) {
-        progressInterval = setInterval(async () => {
-          try {
-            const progressResponse = await fetch(`/api/progress?jobId=${jobId}`)
-            if (progressResponse.ok) {
-              const data = await progressResponse.json()
-              // Scale progress to start from 20% (after upload) to 100%
-              const scaledProgress = 20 + (data.progress * 0.8)
-              setProgress(Math.round(scaledProgress))
-              
-              // Update estimated time remaining
-              if (data.estimatedTimeRemaining !== undefined) {
-                setEstimatedTimeRemaining(data.estimatedTimeRemaining)
-              }
-              
-              // If progress is 100%, stop polling
-              if (data.progress >= 100) {
-                clearInterval(progressInterval)
-                progressInterval = null
-              }
-            }
-          } catch (err) {
-            console.error('Progress fetch error:', err)
-          }
-        }, 1000)
-      }
 
-      if (processResponse.ok) {
-        // Check if it's a mock response (development without FFmpeg)
-        const contentType = processResponse.headers.get('Content-Type')
-        if (contentType && contentType.includes('application/json')) {
-          const mockData = await processResponse.json()
-          alert(`Development mode: ${mockData.message || 'FFmpeg not installed locally'}`)
-          setProgress(100)
-          // Create a small mock video file
-          const mockBlob = new Blob([new ArrayBuffer(1024)], { type: 'video/mp4' })
-          const url = URL.createObjectURL(mockBlob)
-          setConvertedUrl(url)
-          setConvertedSize(mockBlob.size)
-        } else {
-          // Normal blob response
-          const blob = await processResponse.blob()
-          const url = URL.createObjectURL(blob)
-          setConvertedUrl(url)
-          setConvertedSize(blob.size)
-          setProgress(100) // Ensure progress shows 100% when complete
-        }
-      } else {
+      if (!processResponse.ok) {
         const errorData = await processResponse.json().catch(() => ({ error: 'Conversion failed' }))
         alert(`Conversion failed: ${errorData.error}`)
+        return
+      }
+
+      // Poll progress until the job finishes
+      const { jobId } = await processResponse.json()
+      jobIdRef.current = jobId
+      if (cancelledRef.current) {
+        await cancelJob(jobId)
+        return
       }
+
+      const finalProgress = await waitForJob(jobId, (data) => {
+        // Scale progress to start from 20% (after upload) to 100%
+        const scaledProgress = 20 + (data.progress * 0.8)
+        setProgress(Math.round(scaledProgress))
+
+        // Update estimated time remaining
+        if (data.estimatedTimeRemaining !== undefined) {
+          setEstimatedTimeRemaining(data.estimatedTimeRemaining)
+        }
+      })
+
+      if (finalProgress.status === 'cancelled') return
+      if (finalProgress.status !== 'completed') {
+        alert(`Conversion failed: ${finalProgress.error || 'Unknown error'}`)
+        return
+      }
+
+      // Step 3: Download the converted file
+      const blob = await fetchJobResult(jobId)
+      const url = URL.createObjectURL(blob)
+      setConvertedUrl(url)
+      setConvertedSize(blob.size)
+      setProgress(100) // Ensure progress shows 100% when complete
     } catch (error) {
+      if (cancelledRef.current) return
       console.error('Conversion failed:', error)
       alert('Conversion failed. Please try again.')
     } finally {
-      // Clean up interval if it exists
-      if (progressInterval) {
-        clearInterval(progressInterval)
-      }
+      uploadAbortRef.current = null
       setIsConverting(false)
     }
   }
 
+  const cancelConversion = () => {
+    cancelledRef.current = true
+    uploadAbortRef.current?.abort()
+    if (jobIdRef.current) {
+      cancelJob(jobIdRef.current)
+    }
+  }
+
   const handleDownload = () => {
     if (convertedUrl && originalFile) {
       const nameWithoutExt = originalFile.name.replace(/\.[^/.]+$/, '')
@@ -356,6 +353,7 @@ export default function VideoConverter() {
             onBitrateChange={setBitrate}
             onFpsChange={setFps}
             onConvert={convertVideo}
+            onCancel={cancelConversion}
             isConverting={isConverting}
             progress={progress}
             estimatedTimeRemaining={estimatedTimeRemaining}
@@ -0,0 +1,103 @@
+import type { ImageAdjustments } from '../lib/image-adjustments'
+
+interface AdjustmentControlsProps {
+  adjustments: ImageAdjustments
+  onChange: (adjustments: ImageAdjustments) => void
+}
+
+// Multipliers, shown as percentages where 100% leaves the image unchanged
+const MODULATION: { key: 'brightness' | 'saturation' | 'contrast'; label: string }[] = [
+  { key: 'brightness', label: 'Brightness' },
+  { key: 'saturation', label: 'Saturation' },
+  { key: 'contrast', label: 'Contrast' }
+]
+
+const TOGGLES: { key: 'grayscale' | 'normalize' | 'trim'; label: string }[] = [
+  { key: 'grayscale', label: 'Grayscale' },
+  { key: 'normalize', label: 'Auto levels' },
+  { key: 'trim', label: 'Trim borders' }
+]
+
+export default function AdjustmentControls({ adjustments, onChange }: AdjustmentControlsProps) {
+  const update = (changes: Partial<ImageAdjustments>) => onChange({ ...adjustments, ...changes })
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <label className="block text-gray-400">
+          Sharpen: {adjustments.sharpen ? adjustments.sharpen.toFixed(1) : 'off'}
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="5"
+          step="0.5"
+          value={adjustments.sharpen}
+          onChange={(e) => update({ sharpen: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+      <div>
+        <label className="block text-gray-400">
+          Blur: {adjustments.blur ? adjustments.blur.toFixed(1) : 'off'}
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="20"
+          step="0.5"
+          value={adjustments.blur}
+          onChange={(e) => update({ blur: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+      {MODULATION.map(({ key, label }) => (
+        <div key={key}>
+          <label className="block text-gray-400">{label}: {Math.round(adjustments[key] * 100)}%</label>
+          <input
+            type="range"
+            min="0"
+            max="200"
+            step="5"
+            value={Math.round(adjustments[key] * 100)}
+            onChange={(e) => update({ [key]: Number(e.target.value) / 100 })}
+            className="w-full"
+          />
+        </div>
+      ))}
+      <div className="grid grid-cols-2 gap-2">
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={adjustments[key]}
+              onChange={(e) => update({ [key]: e.target.checked })}
+              className="text-blue-600"
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!adjustments.flatten}
+            onChange={(e) => update({ flatten: e.target.checked ? '#ffffff' : undefined })}
+            className="text-blue-600"
+          />
+          <span>Fill transparency</span>
+        </label>
+        {adjustments.flatten && (
+          <input
+            type="color"
+            value={adjustments.flatten}
+            onChange={(e) => update({ flatten: e.target.value })}
+            className="h-7 w-9 bg-gray-700 border border-gray-600 rounded"
+            title="Background colour"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
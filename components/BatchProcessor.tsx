@@ -1,11 +1,24 @@
 import { useState, useRef } from 'react'
+import { cancelJob, newJobId } from '../lib/job-client'
+import MetadataSelect from './MetadataSelect'
+import TransformControls from './TransformControls'
+import WatermarkControls from './WatermarkControls'
+import AdjustmentControls from './AdjustmentControls'
+import type { MetadataMode } from '../lib/image-metadata'
+import type { ImageTransforms } from '../lib/image-transform'
+import { SOCIAL_PRESETS, CROP_STRATEGIES, SocialPresetId, CropStrategy } from '../lib/social-presets'
+import { appendWatermark, WatermarkSettings } from '../lib/watermark-client'
+import type { ImageAdjustments } from '../lib/image-adjustments'
+import { useServerLimits } from './useServerLimits'
 
 interface BatchFile {
   file: File
   originalSize: number
   optimizedSize: number
-  status: 'pending' | 'processing' | 'completed' | 'error'
+  status: 'pending' | 'processing' | 'completed' | 'kept' | 'error' // kept: nothing beat the original
   optimizedBlob?: Blob
+  tooLarge?: boolean // Over the server's size limit
+  preset?: SocialPresetId // Set when each upload is exported once per selected preset
 }
 
 interface BatchProcessorProps {
@@ -14,23 +27,44 @@ interface BatchProcessorProps {
   quality: number
   width?: number
   height?: number
+  metadataMode: MetadataMode
+  transforms: ImageTransforms // Only auto-orient and rotation apply to a batch
+  cropStrategy: CropStrategy
+  watermark: WatermarkSettings | null
+  adjustments: ImageAdjustments
+  lossless: boolean
+  allowLarger: boolean
   onBack: () => void
   onFormatChange: (format: string) => void
   onQualityChange: (quality: number) => void
   onPercentageResize?: (percentage: number) => void
+  onMetadataModeChange: (mode: MetadataMode) => void
+  onTransformsChange: (transforms: ImageTransforms) => void
+  onCropStrategyChange: (strategy: CropStrategy) => void
+  onWatermarkChange: (watermark: WatermarkSettings | null) => void
+  onAdjustmentsChange: (adjustments: ImageAdjustments) => void
+  onLosslessChange: (lossless: boolean) => void
+  onAllowLargerChange: (allow: boolean) => void
 }
 
-export default function BatchProcessor({ files, format, quality, width, height, onBack, onFormatChange, onQualityChange, onPercentageResize }: BatchProcessorProps) {
-  const [batchFiles, setBatchFiles] = useState<BatchFile[]>(
-    files.map(file => ({
-      file,
-      originalSize: file.size,
-      optimizedSize: 0,
-      status: 'pending'
-    }))
-  )
+// One entry per file, or per file and preset when presets are selected
+const buildEntries = (files: File[], presets: SocialPresetId[]): BatchFile[] =>
+  files.flatMap(file => (presets.length ? presets : [undefined]).map(preset => ({
+    file,
+    originalSize: file.size,
+    optimizedSize: 0,
+    status: 'pending' as const,
+    preset
+  })))
+
+export default function BatchProcessor({ files, format, quality, width, height, metadataMode, transforms, cropStrategy, watermark, adjustments, lossless, allowLarger, onBack, onFormatChange, onQualityChange, onPercentageResize, onMetadataModeChange, onTransformsChange, onCropStrategyChange, onWatermarkChange, onAdjustmentsChange, onLosslessChange, onAllowLargerChange }: BatchProcessorProps) {
+  const [selectedPresets, setSelectedPresets] = useState<SocialPresetId[]>([])
+  const [batchFiles, setBatchFiles] = useState<BatchFile[]>(buildEntries(files, []))
   const [isProcessing, setIsProcessing] = useState(false)
   const shouldStopRef = useRef(false)
+  const currentJobIdRef = useRef<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const limits = useServerLimits()
 
   const processAllFiles = async () => {
     setIsProcessing(true)
@@ -45,26 +79,68 @@ export default function BatchProcessor({ files, format, quality, width, height,
 
       try {
         // Check file size before processing
-        if (batchFiles[i].file.size > 50 * 1024 * 1024) {
+        if (limits && batchFiles[i].file.size > limits.maxImageSize) {
           setBatchFiles(prev => prev.map((bf, idx) => 
-            idx === i ? { ...bf, status: 'error' } : bf
+            idx === i ? { ...bf, status: 'error', tooLarge: true } : bf
           ))
           continue
         }
         
+        const jobId = newJobId('batch')
+        currentJobIdRef.current = jobId
+        abortControllerRef.current = new AbortController()
+
         const formData = new FormData()
         formData.append('image', batchFiles[i].file)
+        formData.append('jobId', jobId)
         formData.append('format', format)
         formData.append('quality', quality.toString())
-        if (width) formData.append('width', width.toString())
-        if (height) formData.append('height', height.toString())
+        if (lossless) formData.append('lossless', 'true')
+        if (allowLarger) formData.append('allowLarger', 'true')
+        formData.append('metadata', metadataMode)
+        if (transforms.autoOrient) formData.append('autoOrient', 'true')
+        if (transforms.rotate) formData.append('rotate', transforms.rotate.toString())
+        const preset = batchFiles[i].preset
+        if (preset) {
+          formData.append('preset', preset)
+          formData.append('cropStrategy', cropStrategy)
+        } else {
+          if (width) formData.append('width', width.toString())
+          if (height) formData.append('height', height.toString())
+        }
+        if (adjustments.sharpen) formData.append('sharpen', adjustments.sharpen.toString())
+        if (adjustments.blur) formData.append('blur', adjustments.blur.toString())
+        if (adjustments.brightness !== 1) formData.append('brightness', adjustments.brightness.toString())
+        if (adjustments.saturation !== 1) formData.append('saturation', adjustments.saturation.toString())
+        if (adjustments.contrast !== 1) formData.append('contrast', adjustments.contrast.toString())
+        if (adjustments.grayscale) formData.append('grayscale', 'true')
+        if (adjustments.normalize) formData.append('normalize', 'true')
+        if (adjustments.trim) formData.append('trim', 'true')
+        if (adjustments.flatten) formData.append('flatten', adjustments.flatten)
+        await appendWatermark(formData, watermark)
 
-        const response = await fetch('/api/optimize', {
+        let response = await fetch('/api/optimize', {
           method: 'POST',
           body: formData,
+          signal: abortControllerRef.current.signal,
         })
 
-        if (response.ok) {
+        // Server queue is full: wait as instructed and try the same file again
+        while (response.status === 503 && !shouldStopRef.current) {
+          const retryAfter = parseInt(response.headers.get('Retry-After') || '5')
+          await new Promise(resolve => setTimeout(resolve, retryAfter * 1000))
+          response = await fetch('/api/optimize', {
+            method: 'POST',
+            body: formData,
+            signal: abortControllerRef.current.signal,
+          })
+        }
+
+        if (response.ok && response.headers.get('X-Result') === 'original-kept') {
+          setBatchFiles(prev => prev.map((bf, idx) => 
+            idx === i ? { ...bf, status: 'kept', optimizedSize: bf.originalSize, optimizedBlob: bf.file } : bf
+          ))
+        } else if (response.ok) {
           const blob = await response.blob()
           setBatchFiles(prev => prev.map((bf, idx) => 
             idx === i ? { 
@@ -76,32 +152,54 @@ export default function BatchProcessor({ files, format, quality, width, height,
           ))
         } else {
           setBatchFiles(prev => prev.map((bf, idx) => 
-            idx === i ? { ...bf, status: 'error' } : bf
+            idx === i ? { ...bf, status: 'error', tooLarge: response.status === 413 } : bf
           ))
         }
       } catch (error) {
+        // A stopped file goes back to pending so the next run picks it up again
         setBatchFiles(prev => prev.map((bf, idx) => 
-          idx === i ? { ...bf, status: 'error' } : bf
+          idx === i ? { ...bf, status: shouldStopRef.current ? 'pending' : 'error' } : bf
         ))
       }
     }
     
+    currentJobIdRef.current = null
+    abortControllerRef.current = null
     setIsProcessing(false)
   }
 
+  const togglePreset = (id: SocialPresetId) => {
+    const next = selectedPresets.includes(id)
+      ? selectedPresets.filter(selected => selected !== id)
+      : [...selectedPresets, id]
+    setSelectedPresets(next)
+    setBatchFiles(buildEntries(files, next))
+  }
+
+  const outputName = (bf: BatchFile) => {
+    const nameWithoutExt = bf.file.name.replace(/\.[^/.]+$/, '')
+    // A kept original keeps its own extension
+    const extension = bf.status === 'kept' ? bf.file.name.split('.').pop() : format
+    return `${nameWithoutExt}${bf.preset ? `-${bf.preset}` : ''}.${extension}`
+  }
+
   const stopProcessing = () => {
     shouldStopRef.current = true
+    // Stop the server-side work as well as the request waiting for it
+    if (currentJobIdRef.current) {
+      cancelJob(currentJobIdRef.current)
+    }
+    abortControllerRef.current?.abort()
     setIsProcessing(false)
   }
 
   const downloadAll = () => {
     batchFiles.forEach((bf) => {
       if (bf.optimizedBlob) {
-        const nameWithoutExt = bf.file.name.replace(/\.[^/.]+$/, '')
         const url = URL.createObjectURL(bf.optimizedBlob)
         const link = document.createElement('a')
         link.href = url
-        link.download = `${nameWithoutExt}.${format}`
+        link.download = outputName(bf)
         link.click()
         URL.revokeObjectURL(url)
       }
@@ -110,11 +208,10 @@ export default function BatchProcessor({ files, format, quality, width, height,
 
   const downloadSingle = (bf: BatchFile) => {
     if (bf.optimizedBlob) {
-      const nameWithoutExt = bf.file.name.replace(/\.[^/.]+$/, '')
       const url = URL.createObjectURL(bf.optimizedBlob)
       const link = document.createElement('a')
       link.href = url
-      link.download = `${nameWithoutExt}.${format}`
+      link.download = outputName(bf)
       link.click()
       URL.revokeObjectURL(url)
     }
@@ -128,7 +225,8 @@ export default function BatchProcessor({ files, format, quality, width, height,
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
 
-  const completedFiles = batchFiles.filter(bf => bf.status === 'completed').length
+  // Kept originals count as done: they're part of Download All
+  const completedFiles = batchFiles.filter(bf => bf.status === 'completed' || bf.status === 'kept').length
   const totalSavings = batchFiles.reduce((acc, bf) => acc + (bf.originalSize - bf.optimizedSize), 0)
 
   return (
@@ -145,11 +243,11 @@ export default function BatchProcessor({ files, format, quality, width, height,
       </div>
 
       {/* Settings */}
-      <div className="grid md:grid-cols-3 gap-6 bg-gray-800 rounded-xl p-4">
+      <div className="grid md:grid-cols-3 lg:grid-cols-5 gap-6 bg-gray-800 rounded-xl p-4">
         <div>
           <h3 className="font-medium mb-3">Format</h3>
-          <div className="flex gap-4">
-            {['webp', 'avif', 'jpeg', 'png'].map((fmt) => (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {['webp', 'avif', 'jpeg', 'png', 'jxl'].map((fmt) => (
               <label key={fmt} className="flex items-center space-x-2 cursor-pointer">
                 <input 
                   type="radio" 
@@ -159,21 +257,40 @@ export default function BatchProcessor({ files, format, quality, width, height,
                   onChange={(e) => onFormatChange(e.target.value)}
                   className="text-blue-600" 
                 />
-                <span className="capitalize text-sm">{fmt}</span>
+                <span className="capitalize text-sm">{fmt === 'jxl' ? 'JPEG XL' : fmt}</span>
               </label>
             ))}
           </div>
+          <label className="flex items-center space-x-2 cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={allowLarger}
+              onChange={(e) => onAllowLargerChange(e.target.checked)}
+              className="text-blue-600"
+            />
+            <span className="text-sm">Convert even if larger</span>
+          </label>
         </div>
         <div>
-          <h3 className="font-medium mb-3">Quality: {quality}%</h3>
+          <h3 className="font-medium mb-3">Quality: {lossless ? 'lossless' : `${quality}%`}</h3>
           <input 
             type="range" 
             min="1" 
             max="100" 
             value={quality}
+            disabled={lossless}
             onChange={(e) => onQualityChange(Number(e.target.value))}
-            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider disabled:opacity-40"
           />
+          <label className="flex items-center space-x-2 cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={lossless}
+              onChange={(e) => onLosslessChange(e.target.checked)}
+              className="text-blue-600"
+            />
+            <span className="text-sm">Lossless</span>
+          </label>
         </div>
         <div>
           <h3 className="font-medium mb-3">Resize</h3>
@@ -193,6 +310,63 @@ export default function BatchProcessor({ files, format, quality, width, height,
             ))}
           </select>
         </div>
+        <div>
+          <h3 className="font-medium mb-3">Metadata</h3>
+          <MetadataSelect value={metadataMode} onChange={onMetadataModeChange} />
+        </div>
+        <div>
+          <h3 className="font-medium mb-3">Orientation</h3>
+          <TransformControls transforms={transforms} onChange={onTransformsChange} />
+        </div>
+      </div>
+
+      {/* Adjustments and watermark, applied to every file */}
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="bg-gray-800 rounded-xl p-4">
+          <h3 className="font-medium mb-3">Adjustments</h3>
+          <AdjustmentControls adjustments={adjustments} onChange={onAdjustmentsChange} />
+        </div>
+        <div className="bg-gray-800 rounded-xl p-4">
+          <h3 className="font-medium mb-3">Watermark</h3>
+          <WatermarkControls watermark={watermark} onChange={onWatermarkChange} />
+        </div>
+      </div>
+
+      {/* Social presets: every file is exported once per selected size */}
+      <div className="bg-gray-800 rounded-xl p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h3 className="font-medium">Social Media Presets</h3>
+          <select
+            value={cropStrategy}
+            onChange={(e) => onCropStrategyChange(e.target.value as CropStrategy)}
+            disabled={isProcessing}
+            className="bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm"
+          >
+            {CROP_STRATEGIES.map((strategy) => (
+              <option key={strategy} value={strategy}>Smart crop: {strategy}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+          {(Object.keys(SOCIAL_PRESETS) as SocialPresetId[]).map((id) => (
+            <label key={id} className="flex items-center space-x-2 cursor-pointer text-sm">
+              <input
+                type="checkbox"
+                checked={selectedPresets.includes(id)}
+                onChange={() => togglePreset(id)}
+                disabled={isProcessing}
+                className="text-blue-600"
+              />
+              <span>{SOCIAL_PRESETS[id].label}</span>
+              <span className="text-gray-400">{SOCIAL_PRESETS[id].width}×{SOCIAL_PRESETS[id].height}</span>
+            </label>
+          ))}
+        </div>
+        {selectedPresets.length > 0 && (
+          <p className="text-xs text-gray-400 mt-3">
+            {files.length} files × {selectedPresets.length} presets = {batchFiles.length} images; the Resize setting is ignored
+          </p>
+        )}
       </div>
 
       {/* Controls */}
@@ -253,9 +427,13 @@ export default function BatchProcessor({ files, format, quality, width, height,
                 <div className={`w-3 h-3 rounded-full ${
                   bf.status === 'pending' ? 'bg-gray-500' :
                   bf.status === 'processing' ? 'bg-yellow-500 animate-pulse' :
-                  bf.status === 'completed' ? 'bg-green-500' : 'bg-red-500'
+                  bf.status === 'completed' ? 'bg-green-500' :
+                  bf.status === 'kept' ? 'bg-blue-500' : 'bg-red-500'
                 }`} />
                 <span className="text-sm font-medium truncate max-w-xs">{bf.file.name}</span>
+                {bf.preset && (
+                  <span className="text-xs bg-gray-600 rounded px-2 py-0.5">{SOCIAL_PRESETS[bf.preset].label}</span>
+                )}
               </div>
               <div className="flex items-center gap-3">
                 <div className="text-sm text-gray-400">
@@ -268,13 +446,18 @@ export default function BatchProcessor({ files, format, quality, width, height,
                       )}
                     </span>
                   )}
+                  {bf.status === 'kept' && (
+                    <span className="text-blue-300 ml-2 text-xs" title="Nothing came out smaller, so the original is kept">
+                      Original kept
+                    </span>
+                  )}
                   {bf.status === 'error' && (
                     <span className="text-red-400 ml-2 text-xs">
-                      {bf.file.size > 50 * 1024 * 1024 ? 'Too large' : 'Failed'}
+                      {bf.tooLarge ? 'Too large' : 'Failed'}
                     </span>
                   )}
                 </div>
-                {bf.status === 'completed' && (
+                {(bf.status === 'completed' || bf.status === 'kept') && (
                   <button
                     onClick={() => downloadSingle(bf)}
                     className="text-blue-400 hover:text-blue-300 text-xs px-2 py-1 rounded border border-blue-400 hover:border-blue-300 transition-colors"
@@ -1,15 +1,53 @@
+import MetadataSelect from './MetadataSelect'
+import AdjustmentControls from './AdjustmentControls'
+import type { MetadataMode } from '../lib/image-metadata'
+import type { ColorProfileMode } from '../lib/color-profile'
+import type { ImageAdjustments } from '../lib/image-adjustments'
+import { SOCIAL_PRESETS, CROP_STRATEGIES, isSocialPresetId, SocialPresetId, CropStrategy } from '../lib/social-presets'
+
+const CROP_STRATEGY_LABELS: Record<CropStrategy, string> = {
+  attention: 'Focus on the subject',
+  entropy: 'Keep the most detail',
+  centre: 'Centre'
+}
+
 interface ControlPanelProps {
   format: string
   quality: number
   width?: number
   height?: number
   maintainAspect: boolean
+  targetSize?: number // Bytes; replaces the quality slider when set
+  allowDownscale: boolean
+  minSsim?: number // Perceptual target (0-1); replaces the quality slider when set
+  lossless: boolean // Keep every pixel; replaces the quality slider when set
+  allowLarger: boolean // Convert even when the result is bigger than the original
+  qualityUsed?: number | null // Quality the server chose to meet targetSize or minSsim
+  metadataMode: MetadataMode
+  colorProfile: ColorProfileMode
+  videoFormats?: boolean // Offer MP4/WebM, for animated GIF input
+  pageCount?: number // Pages of a multi-page document (TIFF, PDF)
+  page?: number // 0-based page to export
+  preset?: SocialPresetId // Exact social media size; replaces width/height when set
+  cropStrategy: CropStrategy
+  adjustments: ImageAdjustments
   onFormatChange: (format: string) => void
   onQualityChange: (quality: number) => void
   onWidthChange: (width: number | undefined) => void
   onHeightChange: (height: number | undefined) => void
   onMaintainAspectChange: (maintain: boolean) => void
   onPercentageResize: (percentage: number) => void
+  onTargetSizeChange: (targetSize: number | undefined) => void
+  onAllowDownscaleChange: (allow: boolean) => void
+  onMinSsimChange: (minSsim: number | undefined) => void
+  onLosslessChange: (lossless: boolean) => void
+  onAllowLargerChange: (allow: boolean) => void
+  onMetadataModeChange: (mode: MetadataMode) => void
+  onColorProfileChange: (mode: ColorProfileMode) => void
+  onPageChange: (page: number | undefined) => void
+  onPresetChange: (preset: SocialPresetId | undefined) => void
+  onCropStrategyChange: (strategy: CropStrategy) => void
+  onAdjustmentsChange: (adjustments: ImageAdjustments) => void
 }
 
 export default function ControlPanel({
@@ -18,14 +56,55 @@ export default function ControlPanel({
   width,
   height,
   maintainAspect,
+  targetSize,
+  allowDownscale,
+  minSsim,
+  lossless,
+  allowLarger,
+  qualityUsed,
+  metadataMode,
+  colorProfile,
+  videoFormats,
+  pageCount,
+  page,
+  preset,
+  cropStrategy,
+  adjustments,
   onFormatChange,
   onQualityChange,
   onWidthChange,
   onHeightChange,
   onMaintainAspectChange,
-  onPercentageResize
+  onPercentageResize,
+  onTargetSizeChange,
+  onAllowDownscaleChange,
+  onMinSsimChange,
+  onLosslessChange,
+  onAllowLargerChange,
+  onMetadataModeChange,
+  onColorProfileChange,
+  onPageChange,
+  onPresetChange,
+  onCropStrategyChange,
+  onAdjustmentsChange
 }: ControlPanelProps) {
   const percentageOptions = [10, 20, 25, 30, 40, 50, 60, 70, 75, 80, 90, 100]
+  const mode = lossless ? 'lossless' : targetSize !== undefined ? 'size' : minSsim !== undefined ? 'ssim' : 'quality'
+  const modeTitles = { quality: 'Quality', size: 'Target Size', ssim: 'Visual Quality', lossless: 'Lossless' }
+
+  const selectMode = (next: typeof mode) => {
+    if (next === mode) return
+    if (mode === 'lossless') onLosslessChange(false)
+    if (next === 'quality' || next === 'lossless') {
+      onTargetSizeChange(undefined)
+      onMinSsimChange(undefined)
+      if (next === 'lossless') onLosslessChange(true)
+    } else if (next === 'size') {
+      onTargetSizeChange(200 * 1024)
+    } else {
+      onMinSsimChange(0.98)
+    }
+  }
 
   const handleReset = () => {
     onWidthChange(undefined)
@@ -38,7 +117,7 @@ export default function ControlPanel({
       <div className="bg-gray-800 rounded-xl p-4">
         <h3 className="font-medium mb-3">Format</h3>
         <div className="space-y-2">
-          {['webp', 'avif', 'jpeg', 'png'].map((fmt) => (
+          {['auto', 'webp', 'avif', 'jpeg', 'png', 'jxl', ...(videoFormats ? ['mp4', 'webm'] : [])].map((fmt) => (
             <label key={fmt} className="flex items-center space-x-2 cursor-pointer">
               <input 
                 type="radio" 
@@ -48,80 +127,224 @@ export default function ControlPanel({
                 onChange={(e) => onFormatChange(e.target.value)}
                 className="text-blue-600" 
               />
-              <span className="capitalize">{fmt}</span>
+              <span className="capitalize">{fmt === 'auto' ? 'Auto (smallest)' : fmt === 'jxl' ? 'JPEG XL' : fmt}</span>
             </label>
           ))}
         </div>
+        <label className="flex items-center space-x-2 cursor-pointer mt-3">
+          <input
+            type="checkbox"
+            checked={allowLarger}
+            onChange={(e) => onAllowLargerChange(e.target.checked)}
+            className="text-blue-600"
+          />
+          <span className="text-sm">Convert even if larger</span>
+        </label>
+        <h3 className="font-medium mt-4 mb-3">Metadata</h3>
+        <MetadataSelect value={metadataMode} onChange={onMetadataModeChange} />
+        <h3 className="font-medium mt-4 mb-3">Color Profile</h3>
+        <select
+          value={colorProfile}
+          onChange={(e) => onColorProfileChange(e.target.value as ColorProfileMode)}
+          className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+        >
+          <option value="srgb">Convert to sRGB</option>
+          <option value="preserve">Keep source profile (e.g. Display P3)</option>
+        </select>
+        {pageCount && pageCount > 1 && (
+          <>
+            <h3 className="font-medium mt-4 mb-3">Page</h3>
+            <select
+              value={page ?? 0}
+              onChange={(e) => onPageChange(Number(e.target.value))}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+            >
+              {Array.from({ length: pageCount }, (_, i) => (
+                <option key={i} value={i}>Page {i + 1} of {pageCount}</option>
+              ))}
+            </select>
+          </>
+        )}
       </div>
 
       {/* Quality Control */}
       <div className="bg-gray-800 rounded-xl p-4">
-        <h3 className="font-medium mb-3">Quality</h3>
-        <div className="space-y-3">
-          <div className="flex justify-between text-sm">
-            <span>Quality</span>
-            <span>{quality}%</span>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-medium">{modeTitles[mode]}</h3>
+          <div className="flex text-xs bg-gray-700 rounded overflow-hidden">
+            {([['quality', 'Quality'], ['size', 'Size'], ['ssim', 'SSIM'], ['lossless', 'Lossless']] as const)
+              .filter(([value]) => (value !== 'size' && value !== 'lossless') || format !== 'auto')
+              .map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => selectMode(value)}
+                  className={`px-2 py-1 ${mode === value ? 'bg-blue-600' : 'hover:bg-gray-600'}`}
+                >
+                  {label}
+                </button>
+              ))}
           </div>
-          <input 
-            type="range" 
-            min="1" 
-            max="100" 
-            value={quality}
-            onChange={(e) => onQualityChange(Number(e.target.value))}
-            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
-          />
         </div>
+        {mode === 'quality' && (
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span>Quality</span>
+              <span>{quality}%</span>
+            </div>
+            <input 
+              type="range" 
+              min="1" 
+              max="100" 
+              value={quality}
+              onChange={(e) => onQualityChange(Number(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+        )}
+        {mode === 'size' && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="1"
+                value={Math.round(targetSize! / 1024)}
+                onChange={(e) => {
+                  const kb = Number(e.target.value)
+                  if (kb > 0) onTargetSizeChange(kb * 1024)
+                }}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+              />
+              <span className="text-sm text-gray-400">KB</span>
+            </div>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allowDownscale}
+                onChange={(e) => onAllowDownscaleChange(e.target.checked)}
+                className="text-blue-600"
+              />
+              <span className="text-sm">Downscale if needed</span>
+            </label>
+            {qualityUsed != null && (
+              <p className="text-xs text-gray-400">Chosen quality: {qualityUsed}%</p>
+            )}
+          </div>
+        )}
+        {mode === 'ssim' && (
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span>Minimum SSIM</span>
+              <span>{minSsim!.toFixed(3)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.9"
+              max="0.999"
+              step="0.001"
+              value={minSsim}
+              onChange={(e) => onMinSsimChange(Number(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+            />
+            <p className="text-xs text-gray-400">
+              Smallest file that still scores this close to the original
+              {qualityUsed != null && ` (chosen quality: ${qualityUsed}%)`}
+            </p>
+          </div>
+        )}
+        {mode === 'lossless' && (
+          <p className="text-sm text-gray-400">
+            Every pixel is kept: lossless WebP, AVIF or JPEG XL, or PNG at maximum compression without
+            reducing colours. JPEG uploads can be recompressed as JPEG without re-encoding, as long as
+            they aren&apos;t resized, edited or auto-oriented.
+          </p>
+        )}
       </div>
 
       {/* Resize Options */}
       <div className="bg-gray-800 rounded-xl p-4">
         <h3 className="font-medium mb-3">Resize</h3>
         <div className="space-y-3">
-          <select 
-            onChange={(e) => onPercentageResize(Number(e.target.value))}
+          <select
+            value={preset ?? ''}
+            onChange={(e) => onPresetChange(isSocialPresetId(e.target.value) ? e.target.value : undefined)}
             className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
-            defaultValue=""
           >
-            <option value="">Resize by %</option>
-            {percentageOptions.map((percent) => (
-              <option key={percent} value={percent}>{percent}%</option>
+            <option value="">Custom size</option>
+            {(Object.keys(SOCIAL_PRESETS) as SocialPresetId[]).map((id) => (
+              <option key={id} value={id}>
+                {SOCIAL_PRESETS[id].label} ({SOCIAL_PRESETS[id].width}×{SOCIAL_PRESETS[id].height})
+              </option>
             ))}
           </select>
-          <div className="grid grid-cols-2 gap-2">
-            <input 
-              type="number" 
-              placeholder="Width" 
-              value={width || ''}
-              onChange={(e) => onWidthChange(e.target.value ? Number(e.target.value) : undefined)}
-              className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
-            />
-            <input 
-              type="number" 
-              placeholder="Height" 
-              value={height || ''}
-              onChange={(e) => onHeightChange(e.target.value ? Number(e.target.value) : undefined)}
-              className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
-            />
-          </div>
-          <div className="flex items-center justify-between">
-            <label className="flex items-center space-x-2 cursor-pointer">
-              <input 
-                type="checkbox" 
-                checked={maintainAspect}
-                onChange={(e) => onMaintainAspectChange(e.target.checked)}
-                className="text-blue-600" 
-              />
-              <span className="text-sm">Maintain aspect ratio</span>
-            </label>
-            <button
-              onClick={handleReset}
-              className="text-xs text-blue-400 hover:text-blue-300 underline"
-            >
-              Reset
-            </button>
-          </div>
+          {preset ? (
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Smart crop</label>
+              <select
+                value={cropStrategy}
+                onChange={(e) => onCropStrategyChange(e.target.value as CropStrategy)}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+              >
+                {CROP_STRATEGIES.map((strategy) => (
+                  <option key={strategy} value={strategy}>{CROP_STRATEGY_LABELS[strategy]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-1">Fills the exact size and crops what doesn&apos;t fit</p>
+            </div>
+          ) : (
+            <>
+              <select 
+                onChange={(e) => onPercentageResize(Number(e.target.value))}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+                defaultValue=""
+              >
+                <option value="">Resize by %</option>
+                {percentageOptions.map((percent) => (
+                  <option key={percent} value={percent}>{percent}%</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-2 gap-2">
+                <input 
+                  type="number" 
+                  placeholder="Width" 
+                  value={width || ''}
+                  onChange={(e) => onWidthChange(e.target.value ? Number(e.target.value) : undefined)}
+                  className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+                />
+                <input 
+                  type="number" 
+                  placeholder="Height" 
+                  value={height || ''}
+                  onChange={(e) => onHeightChange(e.target.value ? Number(e.target.value) : undefined)}
+                  className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={maintainAspect}
+                    onChange={(e) => onMaintainAspectChange(e.target.checked)}
+                    className="text-blue-600" 
+                  />
+                  <span className="text-sm">Maintain aspect ratio</span>
+                </label>
+                <button
+                  onClick={handleReset}
+                  className="text-xs text-blue-400 hover:text-blue-300 underline"
+                >
+                  Reset
+                </button>
+              </div>
+            </>
+          )}
         </div>
       </div>
+
+      {/* Filters applied after resizing */}
+      <div className="bg-gray-800 rounded-xl p-4">
+        <h3 className="font-medium mb-3">Adjustments</h3>
+        <AdjustmentControls adjustments={adjustments} onChange={onAdjustmentsChange} />
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { useState } from 'react'
+import { useRenderedBox } from './useRenderedBox'
+import type { CropRect } from '../lib/image-transform'
+
+interface CropOverlayProps {
+  image: HTMLImageElement | null // Rendered original; crop coordinates are in its natural pixels
+  crop?: CropRect
+  active: boolean // Drag to draw a new box when true; otherwise the box is only shown
+  onCropChange: (crop: CropRect | undefined) => void
+}
+
+// Draws the crop box over the original image. Sits in the image's positioned
+// container, over wherever object-contain placed the image.
+export default function CropOverlay({ image, crop, active, onCropChange }: CropOverlayProps) {
+  const box = useRenderedBox(image)
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null)
+  const [draft, setDraft] = useState<CropRect | null>(null)
+
+  if (!image || !box || !box.width || (!active && !crop)) return null
+
+  const scale = image.naturalWidth / box.width
+  // Pointer position in natural pixels, clamped to the image
+  const toImage = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.round(Math.min(Math.max(e.clientX - rect.left, 0), box.width) * scale),
+      y: Math.round(Math.min(Math.max(e.clientY - rect.top, 0), box.height) * scale)
+    }
+  }
+  const rectBetween = (a: { x: number; y: number }, b: { x: number; y: number }): CropRect => ({
+    left: Math.min(a.x, b.x),
+    top: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y)
+  })
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const point = toImage(e)
+    setStart(point)
+    setDraft({ left: point.x, top: point.y, width: 0, height: 0 })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (start) setDraft(rectBetween(start, toImage(e)))
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!start) return
+    const rect = rectBetween(start, toImage(e))
+    setStart(null)
+    setDraft(null)
+    // A click without a drag clears the crop
+    onCropChange(rect.width > 1 && rect.height > 1 ? rect : undefined)
+  }
+
+  const shown = draft ?? crop
+
+  return (
+    <div
+      className={`absolute overflow-hidden ${active ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+      onPointerDown={active ? handlePointerDown : undefined}
+      onPointerMove={active ? handlePointerMove : undefined}
+      onPointerUp={active ? handlePointerUp : undefined}
+    >
+      {shown && (
+        <div
+          className="absolute border-2 border-blue-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+          style={{
+            left: shown.left / scale,
+            top: shown.top / scale,
+            width: shown.width / scale,
+            height: shown.height / scale
+          }}
+        />
+      )}
+    </div>
+  )
+}
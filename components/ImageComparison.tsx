@@ -1,10 +1,25 @@
+import { useState } from 'react'
 import ProgressBar from './ProgressBar'
+import CropOverlay from './CropOverlay'
+import WatermarkPreview from './WatermarkPreview'
+import { hasWatermark, WatermarkSettings } from '../lib/watermark-client'
+import type { FormatCandidate } from '../lib/image-encoder'
+import type { CropRect } from '../lib/image-transform'
 
 interface ImageComparisonProps {
   originalImage: string
   optimizedImage: string | null
   originalSize: number
   optimizedSize: number
+  ssim?: number | null // Structural similarity of the result to the original, 0-1
+  formatCandidates?: FormatCandidate[] | null // Per-format results of an 'auto' format race
+  formatUsed?: string | null
+  animation?: { frames: number; durationMs: number; preserved: boolean } | null
+  crop?: CropRect // In the original's pixels
+  cropping?: boolean // Drawing a crop box on the original
+  onCropChange?: (crop: CropRect | undefined) => void
+  watermark?: WatermarkSettings | null // Previewed on the original
+  keptOriginal?: number | null // Smallest attempt's size, when the server kept the original instead
   isProcessing?: boolean
   progress?: number
   progressStatus?: string
@@ -23,6 +38,15 @@ export default function ImageComparison({
   optimizedImage, 
   originalSize, 
   optimizedSize,
+  ssim,
+  formatCandidates,
+  formatUsed,
+  animation,
+  crop,
+  cropping = false,
+  onCropChange,
+  watermark,
+  keptOriginal,
   isProcessing = false,
   progress = 0,
   progressStatus = "Processing..."
@@ -31,6 +55,7 @@ export default function ImageComparison({
   const ratio = originalSize > 0 ? (originalSize / optimizedSize).toFixed(1) : '0'
   const isLarger = optimizedSize > originalSize
   const increase = isLarger ? Math.round(((optimizedSize - originalSize) / originalSize) * 100) : 0
+  const [originalElement, setOriginalElement] = useState<HTMLImageElement | null>(null)
 
   return (
     <>
@@ -40,10 +65,23 @@ export default function ImageComparison({
         <div className="bg-gray-800 rounded-xl overflow-hidden">
           <div className="bg-gray-700 px-4 py-2 flex justify-between items-center">
             <span className="font-medium">Original</span>
-            <span className="text-sm text-gray-300">{formatFileSize(originalSize)}</span>
+            <span className="text-sm text-gray-300">
+              {animation && (
+                <span className="mr-3" title="Animation frames and running time">
+                  🎞 {animation.frames} frames · {(animation.durationMs / 1000).toFixed(1)}s
+                </span>
+              )}
+              {formatFileSize(originalSize)}
+            </span>
           </div>
-          <div className="aspect-square bg-gray-900 flex items-center justify-center">
-            <img src={originalImage} className="max-w-full max-h-full object-contain" alt="Original" />
+          <div className="relative aspect-square bg-gray-900 flex items-center justify-center">
+            <img ref={setOriginalElement} src={originalImage} className="max-w-full max-h-full object-contain" alt="Original" />
+            {onCropChange && (
+              <CropOverlay image={originalElement} crop={crop} active={cropping} onCropChange={onCropChange} />
+            )}
+            {hasWatermark(watermark ?? null) && !cropping && (
+              <WatermarkPreview image={originalElement} watermark={watermark!} />
+            )}
           </div>
         </div>
 
@@ -51,11 +89,30 @@ export default function ImageComparison({
         <div className="bg-gray-800 rounded-xl overflow-hidden">
           <div className="bg-gray-700 px-4 py-2 flex justify-between items-center">
             <span className="font-medium">Optimized</span>
-            <span className="text-sm text-green-400">{formatFileSize(optimizedSize)}</span>
+            <span className="text-sm">
+              {ssim != null && !isProcessing && (
+                <span
+                  className={`mr-3 ${ssim >= 0.98 ? 'text-green-400' : ssim >= 0.95 ? 'text-yellow-400' : 'text-red-400'}`}
+                  title="Structural similarity to the original (1.0 = identical)"
+                >
+                  SSIM {ssim.toFixed(4)}
+                </span>
+              )}
+              <span className="text-green-400">{formatFileSize(optimizedSize)}</span>
+            </span>
           </div>
           <div className="aspect-square bg-gray-900 flex items-center justify-center">
             {optimizedImage && !isProcessing ? (
-              <img src={optimizedImage} className="max-w-full max-h-full object-contain" alt="Optimized" />
+              formatUsed === 'mp4' || formatUsed === 'webm' ? (
+                <video src={optimizedImage} className="max-w-full max-h-full object-contain" autoPlay loop muted playsInline />
+              ) : formatUsed === 'jxl' ? (
+                <div className="flex flex-col items-center gap-2 p-4 max-h-full">
+                  <img src={optimizedImage} className="max-w-full min-h-0 object-contain" alt="Optimized" />
+                  <p className="text-xs text-gray-400 text-center">JPEG XL only previews in browsers that support it; the download is unaffected</p>
+                </div>
+              ) : (
+                <img src={optimizedImage} className="max-w-full max-h-full object-contain" alt="Optimized" />
+              )
             ) : (
               <div className="flex flex-col items-center justify-center space-y-4 p-8">
                 {isProcessing && (
@@ -77,6 +134,19 @@ export default function ImageComparison({
         </div>
       </div>
 
+      {animation && !animation.preserved && !isProcessing && (
+        <div className="mb-4 bg-blue-900/20 border border-blue-600/30 rounded-lg p-3 text-sm text-blue-200">
+          Only the first frame was kept. Choose WebP to keep the animation (or AVIF, MP4 and WebM for GIFs).
+        </div>
+      )}
+
+      {keptOriginal != null && !isProcessing && (
+        <div className="mb-4 bg-blue-900/20 border border-blue-600/30 rounded-lg p-3 text-sm text-blue-200">
+          The original was kept: nothing came out smaller (the best attempt was {formatFileSize(keptOriginal)}).
+          Turn on &quot;Convert even if larger&quot; to get the converted file anyway.
+        </div>
+      )}
+
       {/* Warning for larger files */}
       {isLarger && optimizedSize > 0 && (
         <div className="mt-4 bg-yellow-900/20 border border-yellow-600/30 rounded-lg p-4">
@@ -123,6 +193,37 @@ export default function ImageComparison({
           </div>
         </div>
       </div>
+
+      {/* Format race */}
+      {formatCandidates && !isProcessing && (
+        <div className="mt-6 bg-gray-800 rounded-xl p-4">
+          <h3 className="font-medium mb-3">Format Comparison</h3>
+          <table className="w-full text-sm">
+            <thead className="text-gray-400">
+              <tr>
+                <th className="text-left font-normal pb-2">Format</th>
+                <th className="text-right font-normal pb-2">Size</th>
+                <th className="text-right font-normal pb-2">Quality</th>
+                <th className="text-right font-normal pb-2">SSIM</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...formatCandidates].sort((a, b) => (a.size || Infinity) - (b.size || Infinity)).map((candidate) => (
+                <tr
+                  key={candidate.format}
+                  className={candidate.format === formatUsed ? 'text-green-400' : candidate.meetsBar ? '' : 'text-gray-500'}
+                >
+                  <td className="uppercase py-1">{candidate.format}{candidate.format === formatUsed && ' ✓'}</td>
+                  <td className="text-right">{candidate.size ? formatFileSize(candidate.size) : '—'}</td>
+                  <td className="text-right">{candidate.quality ? `${candidate.quality}%` : '—'}</td>
+                  <td className="text-right">{candidate.score.toFixed(4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">Greyed-out formats didn&apos;t reach the quality bar</p>
+        </div>
+      )}
     </>
   )
 }
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { useRef } from 'react'
+import { SERVER_DECODED_EXTENSIONS } from '../lib/image-signature'
+import { formatLimit } from '../lib/config-client'
+import { useServerLimits } from './useServerLimits'
 
 interface ImageUploadProps {
   onImageUpload: (file: File) => void
@@ -7,15 +10,16 @@ interface ImageUploadProps {
 
 export default function ImageUpload({ onImageUpload, onBatchUpload }: ImageUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const limits = useServerLimits()
 
   const handleClick = () => {
     fileInputRef.current?.click()
   }
 
   const validateFile = (file: File): boolean => {
-    const maxSize = 50 * 1024 * 1024 // 50MB
-    if (file.size > maxSize) {
-      alert(`File "${file.name}" is too large (${(file.size / (1024 * 1024)).toFixed(1)}MB). Maximum size is 50MB.`)
+    // Until the limits have loaded the server does the checking
+    if (limits && file.size > limits.maxImageSize) {
+      alert(`File "${file.name}" is too large (${(file.size / (1024 * 1024)).toFixed(1)}MB). Maximum size is ${formatLimit(limits.maxImageSize)}.`)
       return false
     }
     return true
@@ -72,7 +76,7 @@ export default function ImageUpload({ onImageUpload, onBatchUpload }: ImageUploa
             <p className="text-gray-300 mb-4">or click to browse files</p>
             <div className="inline-flex items-center gap-2 text-sm text-blue-400 bg-blue-900/30 px-4 py-2 rounded-full">
               <span>✨</span>
-              <span>Supports: JPG, PNG, WebP • Max 50MB • Single or batch upload</span>
+              <span>Supports: JPG, PNG, WebP, HEIC, JPEG XL, RAW{limits && ` • Max ${formatLimit(limits.maxImageSize)}`} • Single or batch upload</span>
             </div>
           </div>
         </div>
@@ -80,7 +84,7 @@ export default function ImageUpload({ onImageUpload, onBatchUpload }: ImageUploa
           ref={fileInputRef}
           type="file" 
           className="hidden" 
-          accept="image/*"
+          accept={['image/*', ...SERVER_DECODED_EXTENSIONS.map((extension) => `.${extension}`)].join(',')}
           multiple
           onChange={handleFileChange}
         />
@@ -89,7 +93,9 @@ export default function ImageUpload({ onImageUpload, onBatchUpload }: ImageUploa
       {/* Quick Tips */}
       <div className="mt-6 text-center text-sm text-gray-400 space-y-2">
         <p>💡 <strong>Pro tip:</strong> Upload multiple images for batch processing</p>
-        <p>📏 <strong>Limits:</strong> Max 50MB per file, 8000px max dimension</p>
+        {limits && (
+          <p>📏 <strong>Limits:</strong> Max {formatLimit(limits.maxImageSize)} per file, {limits.maxImageDimension}px max dimension</p>
+        )}
       </div>
     </div>
   )
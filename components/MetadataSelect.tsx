@@ -0,0 +1,27 @@
+import type { MetadataMode } from '../lib/image-metadata'
+
+interface MetadataSelectProps {
+  value: MetadataMode
+  onChange: (mode: MetadataMode) => void
+}
+
+const MODE_LABELS: Record<MetadataMode, string> = {
+  strip: 'Strip all (removes GPS)',
+  icc: 'Keep color profile only',
+  copyright: 'Keep copyright & artist',
+  all: 'Keep everything (incl. GPS)'
+}
+
+export default function MetadataSelect({ value, onChange }: MetadataSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as MetadataMode)}
+      className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+    >
+      {(Object.keys(MODE_LABELS) as MetadataMode[]).map((mode) => (
+        <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+      ))}
+    </select>
+  )
+}
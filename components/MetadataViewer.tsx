@@ -0,0 +1,57 @@
+import type { MetadataReport } from '../lib/image-metadata'
+
+interface MetadataViewerProps {
+  metadata: MetadataReport | null
+}
+
+const formatBytes = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`)
+
+// Lists what the original image carried, so it's clear what each metadata mode keeps or drops
+export default function MetadataViewer({ metadata }: MetadataViewerProps) {
+  if (!metadata) return null
+
+  const { exif, icc } = metadata
+  const rows: [string, string][] = []
+
+  if (exif?.make || exif?.model) rows.push(['Camera', [exif.make, exif.model].filter(Boolean).join(' ')])
+  if (exif?.dateTimeOriginal || exif?.dateTime) rows.push(['Taken', (exif.dateTimeOriginal || exif.dateTime)!])
+  if (exif?.artist) rows.push(['Artist', exif.artist])
+  if (exif?.copyright) rows.push(['Copyright', exif.copyright])
+  if (exif?.software) rows.push(['Software', exif.software])
+  if (exif?.imageDescription) rows.push(['Description', exif.imageDescription])
+  if (exif?.orientation && exif.orientation !== 1) rows.push(['Orientation', `EXIF ${exif.orientation}`])
+  rows.push(['Color profile', icc ? `${icc.description || 'Embedded'} (${formatBytes(icc.size)})` : 'None'])
+  if (metadata.space) rows.push(['Color space', metadata.space])
+  if (metadata.xmpSize) rows.push(['XMP', formatBytes(metadata.xmpSize)])
+  if (metadata.iptcSize) rows.push(['IPTC', formatBytes(metadata.iptcSize)])
+
+  const gps = exif?.gps
+  const hasPosition = gps?.latitude !== undefined && gps?.longitude !== undefined
+
+  return (
+    <div className="mt-6 bg-gray-800 rounded-xl p-4">
+      <h3 className="font-medium mb-3">Original Metadata</h3>
+
+      {gps && (
+        <div className="mb-3 bg-yellow-900/20 border border-yellow-600/30 rounded-lg px-3 py-2 text-sm text-yellow-200">
+          📍 Contains GPS location
+          {hasPosition && ` (${gps.latitude!.toFixed(5)}, ${gps.longitude!.toFixed(5)})`}
+          . Only &quot;Keep everything&quot; carries it into the optimized image.
+        </div>
+      )}
+
+      {!exif && !icc && !metadata.xmpSize && !metadata.iptcSize ? (
+        <p className="text-sm text-gray-400">No embedded metadata</p>
+      ) : (
+        <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-400">{label}</dt>
+              <dd className="break-words">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  )
+}
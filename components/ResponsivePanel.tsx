@@ -0,0 +1,203 @@
+import { useState } from 'react'
+import ProgressBar from './ProgressBar'
+import { subscribeToProgress, newJobId } from '../lib/job-client'
+
+interface ResponsivePanelProps {
+  originalImage: string
+  originalFilename: string
+  quality: number
+}
+
+interface ResponsiveFile {
+  name: string
+  format: string
+  width: number
+  height: number
+  size: number
+}
+
+interface ResponsiveResult {
+  downloadUrl: string
+  zipSize: number
+  html: string
+  files: ResponsiveFile[]
+}
+
+const WIDTH_OPTIONS = [320, 480, 640, 768, 960, 1280, 1600, 1920, 2560]
+const DEFAULT_WIDTHS = [320, 640, 960, 1280, 1920]
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 KB'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+// Generates a srcset bundle (AVIF, WebP and JPEG at several widths) through /api/responsive
+export default function ResponsivePanel({ originalImage, originalFilename, quality }: ResponsivePanelProps) {
+  const [widths, setWidths] = useState<number[]>(DEFAULT_WIDTHS)
+  const [sizes, setSizes] = useState('100vw')
+  const [alt, setAlt] = useState('')
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [progressStatus, setProgressStatus] = useState('')
+  const [result, setResult] = useState<ResponsiveResult | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const toggleWidth = (width: number) => {
+    setWidths((current) =>
+      current.includes(width) ? current.filter((w) => w !== width) : [...current, width].sort((a, b) => a - b)
+    )
+  }
+
+  const generate = async () => {
+    setIsGenerating(true)
+    setResult(null)
+    setProgress(0)
+    setProgressStatus('Starting...')
+
+    const jobId = newJobId('srcset')
+    const stopProgress = subscribeToProgress(jobId, (data) => {
+      setProgress(data.progress)
+      setProgressStatus(data.status)
+    })
+
+    try {
+      const blob = await (await fetch(originalImage)).blob()
+      const formData = new FormData()
+      formData.append('image', blob, originalFilename)
+      formData.append('widths', widths.join(','))
+      formData.append('quality', quality.toString())
+      formData.append('sizes', sizes)
+      formData.append('alt', alt)
+      formData.append('jobId', jobId)
+
+      const response = await fetch('/api/responsive', { method: 'POST', body: formData })
+      const data = await response.json().catch(() => ({ error: 'Generation failed' }))
+      if (!response.ok) throw new Error(data.error)
+
+      setResult(data)
+    } catch (error) {
+      console.error('Responsive set failed:', error)
+      alert(`Responsive set failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      stopProgress()
+      setIsGenerating(false)
+    }
+  }
+
+  const copyHtml = async () => {
+    if (!result) return
+    await navigator.clipboard.writeText(result.html)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const zipName = `${originalFilename.replace(/\.[^/.]+$/, '') || 'image'}-srcset.zip`
+
+  return (
+    <div className="mt-6 bg-gray-800 rounded-xl p-4">
+      <h3 className="font-medium mb-1">Responsive Image Set</h3>
+      <p className="text-xs text-gray-400 mb-4">
+        AVIF and WebP at every width with a JPEG fallback, plus a ready-to-paste &lt;picture&gt; snippet
+      </p>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div>
+          <div className="text-sm mb-2">Widths</div>
+          <div className="grid grid-cols-3 gap-2">
+            {WIDTH_OPTIONS.map((width) => (
+              <label key={width} className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={widths.includes(width)}
+                  onChange={() => toggleWidth(width)}
+                  className="text-blue-600"
+                />
+                <span>{width}px</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm mb-1">sizes attribute</label>
+            <input
+              type="text"
+              value={sizes}
+              onChange={(e) => setSizes(e.target.value)}
+              placeholder="(min-width: 1024px) 50vw, 100vw"
+              className="w-full bg-gray-700 rounded px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1">Alt text</label>
+            <input
+              type="text"
+              value={alt}
+              onChange={(e) => setAlt(e.target.value)}
+              className="w-full bg-gray-700 rounded px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col justify-end space-y-3">
+          <p className="text-xs text-gray-400">
+            Uses the current quality ({quality}%). Widths larger than the image are skipped.
+          </p>
+          <button
+            onClick={generate}
+            disabled={isGenerating || widths.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            {isGenerating ? 'Generating...' : 'Generate Set'}
+          </button>
+        </div>
+      </div>
+
+      {isGenerating && (
+        <div className="mt-4">
+          <ProgressBar progress={progress} isVisible={true} label={progressStatus} />
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4 space-y-4">
+          <div className="grid md:grid-cols-3 gap-2 text-xs">
+            {result.files.map((file) => (
+              <div key={file.name} className="flex justify-between bg-gray-700 rounded px-3 py-1">
+                <span>{file.name}</span>
+                <span className="text-gray-400">{formatFileSize(file.size)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm">HTML</span>
+              <button onClick={copyHtml} className="text-xs text-blue-400 hover:text-blue-300">
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <textarea
+              readOnly
+              value={result.html}
+              rows={6}
+              className="w-full bg-gray-900 rounded p-3 text-xs font-mono"
+            />
+          </div>
+
+          <a
+            href={result.downloadUrl}
+            download={zipName}
+            className="inline-block bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            Download ZIP ({formatFileSize(result.zipSize)})
+          </a>
+        </div>
+      )}
+    </div>
+  )
+}
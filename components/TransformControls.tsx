@@ -0,0 +1,114 @@
+import type { ImageTransforms } from '../lib/image-transform'
+
+interface TransformControlsProps {
+  transforms: ImageTransforms
+  onChange: (transforms: ImageTransforms) => void
+  cropping?: boolean
+  onCroppingChange?: (cropping: boolean) => void // Leave out for batch mode, which only orients and rotates
+}
+
+// Splits an angle into quarter turns and the fine straightening angle (-45 to 45)
+const splitAngle = (degrees: number) => {
+  const quarter = Math.round(degrees / 90) * 90
+  return { quarter, fine: degrees - quarter }
+}
+
+const normalize = (degrees: number) => ((degrees % 360) + 360) % 360
+
+export default function TransformControls({ transforms, onChange, cropping = false, onCroppingChange }: TransformControlsProps) {
+  const batch = !onCroppingChange
+  const { quarter, fine } = splitAngle(transforms.rotate)
+  const update = (changes: Partial<ImageTransforms>) => onChange({ ...transforms, ...changes })
+  const turn = (by: number) => update({ rotate: normalize(quarter + by) + fine })
+  const toggleClass = (on: boolean) =>
+    `px-3 py-1 rounded text-sm ${on ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'}`
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 cursor-pointer text-sm">
+        <input
+          type="checkbox"
+          checked={transforms.autoOrient}
+          onChange={(e) => update({ autoOrient: e.target.checked })}
+          className="text-blue-600"
+        />
+        <span>Auto-orient from EXIF {!batch && <span className="text-gray-400">(always on while editing)</span>}</span>
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => turn(-90)} className={toggleClass(false)} title="Rotate 90° left">⟲ 90°</button>
+        <button onClick={() => turn(90)} className={toggleClass(false)} title="Rotate 90° right">⟳ 90°</button>
+        {!batch && (
+          <>
+            <button
+              onClick={() => update({ flipHorizontal: !transforms.flipHorizontal })}
+              className={toggleClass(transforms.flipHorizontal)}
+            >
+              ⇋ Flip H
+            </button>
+            <button
+              onClick={() => update({ flipVertical: !transforms.flipVertical })}
+              className={toggleClass(transforms.flipVertical)}
+            >
+              ⇵ Flip V
+            </button>
+            <button onClick={() => onCroppingChange(!cropping)} className={toggleClass(cropping)}>
+              ✂ {cropping ? 'Done cropping' : 'Crop'}
+            </button>
+          </>
+        )}
+        <span className="text-sm text-gray-400">{normalize(transforms.rotate).toFixed(fine ? 1 : 0)}°</span>
+      </div>
+
+      {!batch && (
+        <>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Straighten: {fine.toFixed(1)}°</label>
+            <input
+              type="range"
+              min="-45"
+              max="45"
+              step="0.5"
+              value={fine}
+              onChange={(e) => update({ rotate: normalize(quarter + Number(e.target.value)) })}
+              className="w-full"
+            />
+          </div>
+
+          {fine !== 0 && (
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-gray-400">Corner fill</span>
+              <input
+                type="color"
+                value={transforms.background === 'transparent' ? '#ffffff' : transforms.background}
+                disabled={transforms.background === 'transparent'}
+                onChange={(e) => update({ background: e.target.value })}
+                className="h-7 w-10 bg-gray-700 border border-gray-600 rounded"
+              />
+              <label className="flex items-center space-x-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={transforms.background === 'transparent'}
+                  onChange={(e) => update({ background: e.target.checked ? 'transparent' : '#ffffff' })}
+                />
+                <span>Transparent</span>
+              </label>
+            </div>
+          )}
+
+          {transforms.crop && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">
+                Crop {transforms.crop.width}×{transforms.crop.height} at {transforms.crop.left},{transforms.crop.top}
+              </span>
+              <button onClick={() => update({ crop: undefined })} className="text-blue-400 hover:text-blue-300">
+                Clear
+              </button>
+            </div>
+          )}
+          {cropping && <p className="text-xs text-gray-400">Drag on the original to draw the crop box</p>}
+        </>
+      )}
+    </div>
+  )
+}
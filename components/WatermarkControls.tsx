@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react'
+import type { WatermarkPosition } from '../lib/watermark-layout'
+import {
+  DEFAULT_WATERMARK,
+  MAX_LOGO_BYTES,
+  loadSavedWatermarks,
+  saveWatermark,
+  deleteSavedWatermark,
+  WatermarkSettings,
+  SavedWatermark
+} from '../lib/watermark-client'
+
+interface WatermarkControlsProps {
+  watermark: WatermarkSettings | null // null when switched off
+  onChange: (watermark: WatermarkSettings | null) => void
+}
+
+// In reading order, for the 3x3 placement grid
+const GRID: WatermarkPosition[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'centre', 'right',
+  'bottom-left', 'bottom', 'bottom-right'
+]
+
+export default function WatermarkControls({ watermark, onChange }: WatermarkControlsProps) {
+  const [saved, setSaved] = useState<SavedWatermark[]>([])
+  const [saveName, setSaveName] = useState('')
+  // Text is sent when editing finishes, not on every keystroke
+  const [draftText, setDraftText] = useState(watermark?.text ?? DEFAULT_WATERMARK.text)
+
+  // localStorage only exists in the browser, after the first render
+  useEffect(() => setSaved(loadSavedWatermarks()), [])
+  useEffect(() => setDraftText(watermark?.text ?? DEFAULT_WATERMARK.text), [watermark?.text])
+
+  const update = (changes: Partial<WatermarkSettings>) => onChange({ ...(watermark ?? DEFAULT_WATERMARK), ...changes })
+
+  const handleLogo = (file: File | undefined) => {
+    if (!file) return
+    if (file.size > MAX_LOGO_BYTES) {
+      alert(`Logo is too large to save (${(file.size / 1024).toFixed(0)}KB). Maximum is ${MAX_LOGO_BYTES / 1024}KB.`)
+      return
+    }
+    const reader = new FileReader()
+    reader.onload = () => update({ kind: 'logo', logoDataUrl: reader.result as string })
+    reader.readAsDataURL(file)
+  }
+
+  const handleSave = () => {
+    if (!watermark || !saveName.trim()) return
+    try {
+      setSaved(saveWatermark({ ...watermark, name: saveName.trim() }))
+      setSaveName('')
+    } catch (error) {
+      console.error('Saving watermark failed:', error)
+      alert('Could not save the watermark: browser storage is full.')
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!watermark}
+            onChange={(e) => onChange(e.target.checked ? { ...DEFAULT_WATERMARK } : null)}
+            className="text-blue-600"
+          />
+          <span>Add watermark</span>
+        </label>
+        {saved.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const chosen = saved.find((w) => w.name === e.target.value)
+              if (chosen) onChange(chosen)
+            }}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+          >
+            <option value="">Load saved…</option>
+            {saved.map((w) => (
+              <option key={w.name} value={w.name}>{w.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {watermark && (
+        <>
+          <div className="flex gap-4">
+            {(['text', 'logo'] as const).map((kind) => (
+              <label key={kind} className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="watermark-kind"
+                  checked={watermark.kind === kind}
+                  onChange={() => update({ kind })}
+                  className="text-blue-600"
+                />
+                <span className="capitalize">{kind}</span>
+              </label>
+            ))}
+          </div>
+
+          {watermark.kind === 'text' ? (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={draftText}
+                onChange={(e) => setDraftText(e.target.value)}
+                onBlur={() => draftText !== watermark.text && update({ text: draftText })}
+                onKeyDown={(e) => e.key === 'Enter' && update({ text: draftText })}
+                placeholder="© Your Brand"
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-2"
+              />
+              <input
+                type="color"
+                value={watermark.color}
+                onChange={(e) => update({ color: e.target.value })}
+                className="h-9 w-10 bg-gray-700 border border-gray-600 rounded"
+                title="Text colour"
+              />
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              {watermark.logoDataUrl && (
+                <img src={watermark.logoDataUrl} alt="Logo" className="h-9 max-w-[6rem] object-contain bg-gray-700 rounded" />
+              )}
+              <input
+                type="file"
+                accept="image/png,image/svg+xml,image/webp"
+                onChange={(e) => handleLogo(e.target.files?.[0])}
+                className="text-xs"
+              />
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <div className={`grid grid-cols-3 gap-1 ${watermark.tile ? 'opacity-40 pointer-events-none' : ''}`}>
+              {GRID.map((position) => (
+                <button
+                  key={position}
+                  onClick={() => update({ position })}
+                  title={position}
+                  className={`w-6 h-6 rounded ${watermark.position === position ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                />
+              ))}
+            </div>
+            <div className="flex-1 space-y-2">
+              <div>
+                <label className="block text-gray-400">Opacity: {Math.round(watermark.opacity * 100)}%</label>
+                <input
+                  type="range"
+                  min="5"
+                  max="100"
+                  value={Math.round(watermark.opacity * 100)}
+                  onChange={(e) => update({ opacity: Number(e.target.value) / 100 })}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-gray-400">Size: {Math.round(watermark.scale * 100)}% of width</label>
+                <input
+                  type="range"
+                  min="5"
+                  max="100"
+                  value={Math.round(watermark.scale * 100)}
+                  onChange={(e) => update({ scale: Number(e.target.value) / 100 })}
+                  className="w-full"
+                />
+              </div>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={watermark.tile}
+              onChange={(e) => update({ tile: e.target.checked })}
+              className="text-blue-600"
+            />
+            <span>Tile across the image</span>
+          </label>
+
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-700">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Name to save as"
+              className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-1"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!saveName.trim()}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1 rounded"
+            >
+              Save
+            </button>
+          </div>
+          {saved.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {saved.map((w) => (
+                <span key={w.name} className="bg-gray-700 rounded px-2 py-0.5 text-xs">
+                  {w.name}
+                  <button
+                    onClick={() => setSaved(deleteSavedWatermark(w.name))}
+                    className="ml-1 text-gray-400 hover:text-red-400"
+                    title={`Delete ${w.name}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
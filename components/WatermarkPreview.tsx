@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { useRenderedBox } from './useRenderedBox'
+import { placeWatermark, textWatermarkSvg, tileGap } from '../lib/watermark-layout'
+import type { WatermarkSettings } from '../lib/watermark-client'
+
+interface WatermarkPreviewProps {
+  image: HTMLImageElement | null
+  watermark: WatermarkSettings
+}
+
+// Most tiles drawn in the preview; the server has no such limit
+const MAX_PREVIEW_TILES = 400
+
+// Shows where the watermark will land, using the same layout rules as the
+// server, before the image is processed again
+export default function WatermarkPreview({ image, watermark }: WatermarkPreviewProps) {
+  const box = useRenderedBox(image)
+  const [aspect, setAspect] = useState<{ src: string; ratio: number } | null>(null)
+
+  if (!box || !box.width || !box.height) return null
+
+  const requestedWidth = Math.max(1, Math.round(box.width * watermark.scale))
+  const src = watermark.kind === 'logo'
+    ? watermark.logoDataUrl
+    : `data:image/svg+xml;charset=utf-8,${encodeURIComponent(textWatermarkSvg(watermark.text, requestedWidth, watermark.color))}`
+  if (!src) return null
+
+  // Until the mark has loaded its height is unknown; measure it off-screen
+  const ratio = aspect?.src === src ? aspect.ratio : null
+  if (!ratio) {
+    return (
+      <img
+        src={src}
+        alt=""
+        className="hidden"
+        onLoad={(e) => setAspect({ src, ratio: e.currentTarget.naturalHeight / e.currentTarget.naturalWidth || 1 })}
+      />
+    )
+  }
+
+  // Never taller than the image, like the server's fit: 'inside'
+  const width = Math.min(requestedWidth, Math.round(box.height / ratio))
+  const height = Math.round(width * ratio)
+
+  let marks: { left: number; top: number }[]
+  if (watermark.tile) {
+    const gap = tileGap(width, height)
+    const stepX = width + Math.min(gap.x, box.width - width)
+    const stepY = height + Math.min(gap.y, box.height - height)
+    marks = []
+    for (let top = 0; top < box.height && marks.length < MAX_PREVIEW_TILES; top += Math.max(stepY, 1)) {
+      for (let left = 0; left < box.width && marks.length < MAX_PREVIEW_TILES; left += Math.max(stepX, 1)) {
+        marks.push({ left, top })
+      }
+    }
+  } else {
+    marks = [placeWatermark(box.width, box.height, width, height, watermark.position)]
+  }
+
+  return (
+    <div
+      className="absolute overflow-hidden pointer-events-none"
+      style={{ left: box.left, top: box.top, width: box.width, height: box.height, opacity: watermark.opacity }}
+    >
+      {marks.map(({ left, top }, i) => (
+        <img key={i} src={src} alt="" className="absolute" style={{ left, top, width, height }} />
+      ))}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ interface AudioControlsProps {
   onFormatChange: (format: string) => void
   onQualityChange: (quality: string) => void
   onConvert: () => void
+  onCancel?: () => void
   isConverting: boolean
   progress?: number
   estimatedTimeRemaining?: number | null
@@ -26,6 +27,7 @@ export default function AudioControls({
   onFormatChange, 
   onQualityChange, 
   onConvert,
+  onCancel,
   isConverting,
   progress = 0,
   estimatedTimeRemaining = null,
@@ -74,6 +76,15 @@ export default function AudioControls({
         >
           {isConverting ? (phase === 'uploading' ? 'Uploading...' : 'Converting...') : 'Convert Audio'}
         </button>
+
+        {isConverting && onCancel && (
+          <button
+            onClick={onCancel}
+            className="ml-4 bg-red-600 hover:bg-red-700 px-8 py-3 rounded-lg font-medium transition-colors"
+          >
+            Cancel
+          </button>
+        )}
         
         {isConverting && (
           <div className="mt-4">
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react'
+
+export interface RenderedBox {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Where an object-contain image was laid out inside its positioned container,
+// kept up to date as it loads and resizes. Overlays drawn over the image use it.
+export function useRenderedBox(image: HTMLImageElement | null): RenderedBox | null {
+  const [box, setBox] = useState<RenderedBox | null>(null)
+
+  useEffect(() => {
+    if (!image) return
+    const measure = () => setBox({
+      left: image.offsetLeft,
+      top: image.offsetTop,
+      width: image.clientWidth,
+      height: image.clientHeight
+    })
+    measure()
+    image.addEventListener('load', measure)
+    const observer = new ResizeObserver(measure)
+    observer.observe(image)
+    return () => {
+      image.removeEventListener('load', measure)
+      observer.disconnect()
+    }
+  }, [image])
+
+  return box
+}
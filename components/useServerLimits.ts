@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react'
+import { fetchServerLimits } from '../lib/config-client'
+import type { PublicConfig } from '../lib/server-config'
+
+// The server's limits from GET /api/config, or null until they have loaded
+export function useServerLimits(): PublicConfig | null {
+  const [limits, setLimits] = useState<PublicConfig | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchServerLimits()
+      .then((loaded) => {
+        if (!cancelled) setLimits(loaded)
+      })
+      .catch((error) => console.error('Loading server limits failed:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return limits
+}
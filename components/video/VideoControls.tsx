@@ -12,6 +12,7 @@ interface VideoControlsProps {
   onBitrateChange: (bitrate: string) => void
   onFpsChange: (fps: string) => void
   onConvert: () => void
+  onCancel?: () => void
   isConverting: boolean
   progress: number
   estimatedTimeRemaining?: number | null
@@ -40,6 +41,7 @@ export default function VideoControls({
   onBitrateChange,
   onFpsChange,
   onConvert,
+  onCancel,
   isConverting,
   progress,
   estimatedTimeRemaining = null,
@@ -146,6 +148,15 @@ export default function VideoControls({
       >
         {isConverting ? (phase === 'uploading' ? `Uploading... ${progress}%` : `Converting... ${progress}%`) : 'Convert Video'}
       </button>
+
+      {isConverting && onCancel && (
+        <button
+          onClick={onCancel}
+          className="w-full mt-3 bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+      )}
       
       {isConverting && (
         <div className="mt-4">
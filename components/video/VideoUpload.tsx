@@ -1,12 +1,16 @@
 'use client'
 
 import { useCallback } from 'react'
+import { formatLimit } from '../../lib/config-client'
+import { useServerLimits } from '../useServerLimits'
 
 interface VideoUploadProps {
   onVideoUpload: (file: File) => void
 }
 
 export default function VideoUpload({ onVideoUpload }: VideoUploadProps) {
+  const limits = useServerLimits()
+
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
     const files = Array.from(e.dataTransfer.files)
@@ -45,9 +49,11 @@ export default function VideoUpload({ onVideoUpload }: VideoUploadProps) {
           onChange={handleFileSelect}
           className="hidden"
         />
-        <div className="text-sm text-gray-500">
-          Maximum file size: 500MB
-        </div>
+        {limits && (
+          <div className="text-sm text-gray-500">
+            Maximum file size: {formatLimit(limits.uploadLimits.video)}
+          </div>
+        )}
       </div>
     </div>
   )
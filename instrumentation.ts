@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The janitor needs the filesystem, so only start it in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startStagingJanitor } = await import('./lib/staging-janitor')
+    startStagingJanitor()
+  }
+}
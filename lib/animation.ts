@@ -0,0 +1,109 @@
+import sharp from 'sharp'
+import { spawn } from 'child_process'
+import { readFile, writeFile, unlink } from 'fs/promises'
+import { jobService, JobCancelledError } from './job-service'
+import { stagingPath, stagedFileName, stagingOutputPath } from './staging-store'
+
+// sharp keeps frames for WebP output; AVIF and video come from FFmpeg, which
+// can only read animated GIFs (its WebP decoder doesn't do animation)
+export const SHARP_ANIMATED_FORMATS = ['webp']
+export const FFMPEG_ANIMATED_FORMATS = ['avif', 'mp4', 'webm']
+export const VIDEO_FORMATS = ['mp4', 'webm']
+
+export interface AnimationInfo {
+  frames: number
+  durationMs: number
+  loop: number // 0 loops forever
+}
+
+// Frame count and running time of an animated GIF or WebP, or null for still images
+export function animationInfo(metadata: sharp.Metadata): AnimationInfo | null {
+  if (!metadata.pages || metadata.pages < 2) return null
+  if (metadata.format !== 'gif' && metadata.format !== 'webp') return null
+
+  return {
+    frames: metadata.pages,
+    durationMs: (metadata.delay ?? []).reduce((total, delay) => total + delay, 0),
+    loop: metadata.loop ?? 0
+  }
+}
+
+// Whether an animation can keep its frames in the given output format
+export function canAnimate(metadata: sharp.Metadata, format: string): boolean {
+  if (SHARP_ANIMATED_FORMATS.includes(format)) return true
+  return FFMPEG_ANIMATED_FORMATS.includes(format) && metadata.format === 'gif'
+}
+
+function ffmpegArgs(inputPath: string, outputPath: string, format: string, quality: number, width?: number, height?: number): string[] {
+  // Fit inside the requested box like sharp's fit: 'inside'; -2 keeps the aspect ratio
+  // when only one side is given. Encoders need even dimensions either way.
+  const scale = width && height
+    ? `scale=${width}:${height}:force_original_aspect_ratio=decrease,`
+    : width || height ? `scale=${width ?? -2}:${height ?? -2},` : ''
+  const filters = ['-vf', `${scale}scale=trunc(iw/2)*2:trunc(ih/2)*2`]
+  // Map 1-100 quality onto each encoder's CRF range (lower CRF is better)
+  const crf = (best: number, worst: number) => Math.round(worst - ((worst - best) * quality) / 100).toString()
+
+  switch (format) {
+    case 'mp4':
+      return ['-i', inputPath, ...filters, '-c:v', 'libx264', '-crf', crf(18, 35), '-pix_fmt', 'yuv420p',
+        '-movflags', '+faststart', '-an', '-y', outputPath]
+    case 'webm':
+      return ['-i', inputPath, ...filters, '-c:v', 'libvpx-vp9', '-crf', crf(20, 50), '-b:v', '0', '-an', '-y', outputPath]
+    default:
+      return ['-i', inputPath, ...filters, '-c:v', 'libaom-av1', '-crf', crf(18, 50), '-b:v', '0',
+        '-cpu-used', '6', '-pix_fmt', 'yuv420p', '-an', '-y', outputPath]
+  }
+}
+
+// Converts an animated GIF to animated AVIF, MP4 or WebM with FFmpeg. Run it
+// in the FFmpeg queue; cancelling the job kills FFmpeg.
+export async function encodeAnimationWithFfmpeg(
+  input: Buffer,
+  format: string,
+  options: { quality: number; width?: number; height?: number; jobId?: string; signal?: AbortSignal }
+): Promise<Buffer> {
+  const { quality, width, height, jobId, signal } = options
+  const inputPath = stagingPath(stagedFileName('animation.gif', 'image'))
+  const outputPath = stagingOutputPath(format, VIDEO_FORMATS.includes(format) ? 'video' : 'image')
+
+  try {
+    await writeFile(inputPath, input)
+    if (signal?.aborted) throw new JobCancelledError(jobId!)
+    if (jobId) jobService.updateProgress(jobId, 70, `encoding animated ${format}`)
+
+    await new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn(process.env.FFMPEG_PATH || 'ffmpeg', ffmpegArgs(inputPath, outputPath, format, quality, width, height), {
+        stdio: ['ignore', 'ignore', 'pipe']
+      })
+      // FFmpeg reports on stderr; keep the tail for the log if it fails
+      let stderrTail = ''
+      ffmpeg.stderr.on('data', (data) => {
+        stderrTail = (stderrTail + data.toString()).slice(-2000)
+      })
+      const onAbort = () => ffmpeg.kill('SIGKILL')
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      ffmpeg.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort)
+        reject(new Error(`FFmpeg not available: ${error.message}`))
+      })
+      ffmpeg.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort)
+        if (signal?.aborted) {
+          reject(new JobCancelledError(jobId!))
+        } else if (code !== 0) {
+          console.error(`FFmpeg exited with ${code}:`, stderrTail)
+          reject(new Error(`Animated ${format} encoding failed`))
+        } else {
+          resolve()
+        }
+      })
+    })
+
+    return await readFile(outputPath)
+  } finally {
+    await unlink(inputPath).catch(() => {})
+    await unlink(outputPath).catch(() => {})
+  }
+}
@@ -0,0 +1,206 @@
+import { createHash } from 'crypto'
+import { createReadStream } from 'fs'
+import { open, readFile, writeFile, rename, stat, unlink } from 'fs/promises'
+import { stagingPath, STAGING_TTL_MS, StagedFileKind } from './staging-store'
+import { serverConfig, fileTooLargeMessage, MAX_UPLOAD_SIZE } from './server-config'
+
+// State of a chunked upload, kept next to its part file so an upload can be
+// resumed after a network drop or a server restart
+export interface UploadSession {
+  fileId: string
+  fileName: string
+  totalChunks: number
+  totalSize?: number
+  kind?: StagedFileKind // Decides the upload limit; sessions saved before limits were per kind have none
+  receivedChunks: number[]
+  completed: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ChunkInput {
+  fileId: string
+  fileName: string // Staged name of the finished file
+  chunkIndex: number
+  totalChunks: number
+  offset: number
+  totalSize?: number
+  kind: StagedFileKind // Declared by the file name; decides the upload limit
+  checksum?: string // SHA-256 of the chunk, hex encoded
+  fileChecksum?: string // SHA-256 of the whole file, checked when the upload is finalized
+  data: Buffer
+}
+
+export class ChunkUploadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'ChunkUploadError'
+  }
+}
+
+declare global {
+  var uploadSessions: Map<string, UploadSession> | undefined
+  var uploadLocks: Map<string, Promise<unknown>> | undefined
+}
+
+global.uploadSessions = global.uploadSessions || new Map<string, UploadSession>()
+global.uploadLocks = global.uploadLocks || new Map<string, Promise<unknown>>()
+
+function partFilePath(fileId: string): string {
+  return stagingPath(`${fileId}.part`)
+}
+
+function sessionFilePath(fileId: string): string {
+  return stagingPath(`${fileId}.upload.json`)
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+// Hashes a file in fixed-size reads rather than loading it into memory
+function sha256File(path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    createReadStream(path)
+      .on('data', (data) => hash.update(data))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')))
+  })
+}
+
+// Chunks of the same upload may arrive concurrently; session updates for one
+// file are applied one at a time so none of them are lost
+function withUploadLock<T>(fileId: string, work: () => Promise<T>): Promise<T> {
+  const locks = global.uploadLocks!
+  const previous = locks.get(fileId) || Promise.resolve()
+  const current = previous.catch(() => {}).then(work)
+  locks.set(fileId, current)
+  current.finally(() => {
+    if (locks.get(fileId) === current) locks.delete(fileId)
+  }).catch(() => {})
+  return current
+}
+
+export async function getUploadSession(fileId: string): Promise<UploadSession | null> {
+  let session = global.uploadSessions!.get(fileId)
+
+  if (!session) {
+    try {
+      const raw = JSON.parse(await readFile(sessionFilePath(fileId), 'utf8'))
+      session = {
+        ...raw,
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt),
+      } as UploadSession
+      global.uploadSessions!.set(fileId, session)
+    } catch {
+      return null
+    }
+  }
+
+  // The janitor removes part files idle for longer than the TTL, so the session goes with them
+  if (!session.completed && Date.now() - session.updatedAt.getTime() > STAGING_TTL_MS) {
+    await discardUpload(fileId)
+    return null
+  }
+
+  return session
+}
+
+async function saveSession(session: UploadSession): Promise<void> {
+  session.updatedAt = new Date()
+  global.uploadSessions!.set(session.fileId, session)
+  await writeFile(sessionFilePath(session.fileId), JSON.stringify(session))
+}
+
+// Writes a chunk at its byte offset, so retried or reordered chunks land in the
+// right place. The upload is finalized once every chunk has been received.
+export function writeChunk(input: ChunkInput): Promise<UploadSession> {
+  if (input.checksum && sha256(input.data) !== input.checksum.toLowerCase()) {
+    return Promise.reject(new ChunkUploadError(`Checksum mismatch for chunk ${input.chunkIndex}`, 422))
+  }
+
+  return withUploadLock(input.fileId, async () => {
+    let session = await getUploadSession(input.fileId)
+
+    if (session?.completed) return session
+
+    if (session && (session.totalChunks !== input.totalChunks || session.fileName !== input.fileName)) {
+      throw new ChunkUploadError('Chunk does not match the upload it belongs to', 409)
+    }
+
+    if (!session) {
+      const now = new Date()
+      session = {
+        fileId: input.fileId,
+        fileName: input.fileName,
+        totalChunks: input.totalChunks,
+        totalSize: input.totalSize,
+        kind: input.kind,
+        receivedChunks: [],
+        completed: false,
+        createdAt: now,
+        updatedAt: now,
+      }
+    }
+
+    // 'a' creates the file without truncating chunks that are already there;
+    // positional writes need 'r+'
+    await (await open(partFilePath(input.fileId), 'a')).close()
+    const handle = await open(partFilePath(input.fileId), 'r+')
+    try {
+      await handle.write(input.data, 0, input.data.length, input.offset)
+    } finally {
+      await handle.close()
+    }
+
+    if (!session.receivedChunks.includes(input.chunkIndex)) {
+      session.receivedChunks.push(input.chunkIndex)
+      session.receivedChunks.sort((a, b) => a - b)
+    }
+
+    if (session.receivedChunks.length === session.totalChunks) {
+      await finalizeUpload(session, input.fileChecksum)
+    }
+
+    await saveSession(session)
+    return session
+  })
+}
+
+// Moves the assembled part file into place. Verification streams the file from
+// disk; the move itself is a rename, so nothing is buffered in memory.
+async function finalizeUpload(session: UploadSession, fileChecksum?: string): Promise<void> {
+  const partPath = partFilePath(session.fileId)
+  const { size } = await stat(partPath)
+
+  // Chunks are checked against the limit as they arrive, but overlapping or
+  // sparse offsets can still add up to a file that's too big
+  const maxSize = session.kind ? serverConfig.uploadLimits[session.kind] : MAX_UPLOAD_SIZE
+  if (size > maxSize) {
+    await discardUpload(session.fileId)
+    throw new ChunkUploadError(fileTooLargeMessage(maxSize, session.kind), 413)
+  }
+
+  // Every chunk is in, so resending some can't fix the size: start over
+  if (session.totalSize !== undefined && size !== session.totalSize) {
+    await discardUpload(session.fileId)
+    throw new ChunkUploadError(`Assembled file is ${size} bytes, expected ${session.totalSize}; upload discarded`, 422)
+  }
+
+  if (fileChecksum && (await sha256File(partPath)) !== fileChecksum.toLowerCase()) {
+    // The chunks themselves can't be trusted any more, so start over
+    await discardUpload(session.fileId)
+    throw new ChunkUploadError('File checksum mismatch, upload discarded', 422)
+  }
+
+  await rename(partPath, stagingPath(session.fileName))
+  session.completed = true
+}
+
+export async function discardUpload(fileId: string): Promise<void> {
+  global.uploadSessions!.delete(fileId)
+  await unlink(partFilePath(fileId)).catch(() => {})
+  await unlink(sessionFilePath(fileId)).catch(() => {})
+}
@@ -0,0 +1,53 @@
+import sharp from 'sharp'
+import { writeFile } from 'fs/promises'
+import { readIccDescription } from './metadata-parser'
+import { newStagingId, stagingPath } from './staging-store'
+
+// How the output's colours are encoded:
+// - srgb: convert from the embedded profile (or CMYK) to sRGB, the web default
+// - preserve: convert back into the source profile and embed it, e.g. for Display P3 photos
+// sharp processes 8-bit images in sRGB (16-bit ones in P3), so preserving keeps the
+// profile and tonality but can't restore colours that sRGB clipped.
+export const COLOR_PROFILE_MODES = ['srgb', 'preserve'] as const
+
+export type ColorProfileMode = typeof COLOR_PROFILE_MODES[number]
+
+export function isColorProfileMode(value: unknown): value is ColorProfileMode {
+  return typeof value === 'string' && (COLOR_PROFILE_MODES as readonly string[]).includes(value)
+}
+
+export interface ColorProfilePlan {
+  mode: ColorProfileMode // What will actually happen, which may differ from what was asked
+  source: string // Description of the source profile, or 'none'
+  cmyk: boolean
+  icc?: Buffer // Source profile to embed when preserving
+}
+
+// Decides what to do with the source's colour profile. CMYK can't be stored in
+// web formats and an sRGB source gains nothing from preserving, so both
+// become plain sRGB conversions.
+export function planColorProfile(metadata: sharp.Metadata, requested: ColorProfileMode): ColorProfilePlan {
+  const cmyk = metadata.space === 'cmyk'
+  const description = metadata.icc ? readIccDescription(metadata.icc) || 'embedded' : undefined
+  const source = description ?? (cmyk ? 'CMYK (no profile)' : 'none')
+  const isSrgb = !!description && /srgb/i.test(description)
+
+  if (requested === 'preserve' && metadata.icc && !cmyk && !isSrgb) {
+    return { mode: 'preserve', source, cmyk, icc: metadata.icc }
+  }
+  return { mode: 'srgb', source, cmyk }
+}
+
+// Value for the X-Color-Profile response header, e.g. 'preserve; source="Display P3"'
+export function colorProfileHeader(plan: ColorProfilePlan): string {
+  const source = plan.source.replace(/[^\x20-\x7e]/g, '').replace(/"/g, "'")
+  return `${plan.mode}; source="${source}"${plan.cmyk ? '; cmyk' : ''}`
+}
+
+// sharp only embeds profiles it can read from disk, so the source profile is
+// staged as a file for the duration of the encode. Delete it afterwards.
+export async function stageIccProfile(icc: Buffer): Promise<string> {
+  const path = stagingPath(`${newStagingId()}.icc`)
+  await writeFile(path, icc)
+  return path
+}
@@ -0,0 +1,23 @@
+import type { PublicConfig } from './server-config'
+
+export { formatLimit } from './size-format'
+
+// Browser-side access to the server's limits, so uploads can be checked before
+// they are sent. The server enforces the same limits regardless.
+
+let request: Promise<PublicConfig> | null = null
+
+// Fetched once per page load and shared by every caller; a failed request is
+// tried again on the next call
+export function fetchServerLimits(): Promise<PublicConfig> {
+  request ??= fetch('/api/config')
+    .then(async (response) => {
+      if (!response.ok) throw new Error(`Config request failed with status ${response.status}`)
+      return (await response.json()) as PublicConfig
+    })
+    .catch((error) => {
+      request = null
+      throw error
+    })
+  return request
+}
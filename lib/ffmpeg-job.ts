@@ -0,0 +1,151 @@
+import { spawn } from 'child_process'
+import { stat, unlink } from 'fs/promises'
+import { basename } from 'path'
+import { jobService, JobStatus, STAGING_BUCKET } from './job-service'
+
+export interface FfmpegJobOptions {
+  jobId: string
+  args: string[]
+  inputPath: string // A staged upload (see stagedInputPath); removed once FFmpeg exits
+  outputPath: string
+  contentType: string
+  defaultDuration: number // Seconds assumed until FFmpeg reports the real duration
+  label: string // Used in messages, e.g. 'Audio' or 'Video'
+}
+
+export interface FfmpegJobResult {
+  success: boolean
+  cancelled?: boolean
+  error?: string
+}
+
+function parseTimestamp(value: string): number {
+  const parts = value.split(':')
+  return parseFloat(parts[0]) * 3600 + parseFloat(parts[1]) * 60 + parseFloat(parts[2])
+}
+
+// Runs FFmpeg for an already registered job, tracking progress in the job service.
+// The input file is removed once FFmpeg exits; on success the output is kept and
+// recorded on the job so it can be served later. Cancelling the job kills FFmpeg
+// and removes both files. The promise never rejects.
+export function runFfmpegJob({
+  jobId,
+  args,
+  inputPath,
+  outputPath,
+  contentType,
+  defaultDuration,
+  label
+}: FfmpegJobOptions): Promise<FfmpegJobResult> {
+  const startTime = Date.now()
+  // A failed spawn emits both 'error' and 'close'; only the first one settles the job
+  let settled = false
+
+  let cancelled = false
+  let stopWatchingCancel = () => {}
+
+  const fail = async (error: string): Promise<FfmpegJobResult> => {
+    if (settled) return { success: false, error }
+    settled = true
+    stopWatchingCancel()
+    await unlink(inputPath).catch(() => {})
+    await unlink(outputPath).catch(() => {})
+    if (cancelled) return { success: false, cancelled: true, error: 'Conversion cancelled' }
+
+    await jobService.updateJob(jobId, { status: JobStatus.FAILED, error })
+    return { success: false, error }
+  }
+
+  return new Promise<FfmpegJobResult>((resolve) => {
+    // Use system FFmpeg (needs to be installed locally)
+    const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg'
+    console.log(`Using FFmpeg at: ${ffmpegPath}`)
+
+    let ffmpeg
+    try {
+      ffmpeg = spawn(ffmpegPath, args)
+    } catch (error) {
+      console.error('Failed to spawn FFmpeg:', error)
+      fail('FFmpeg not found. Please install FFmpeg on your system.').then(resolve)
+      return
+    }
+
+    stopWatchingCancel = jobService.onCancel(jobId, () => {
+      cancelled = true
+      console.log(`Killing FFmpeg for cancelled job ${jobId}`)
+      ffmpeg.kill('SIGKILL')
+    })
+
+    // Handle spawn errors
+    ffmpeg.on('error', (err) => {
+      console.error('FFmpeg spawn error:', err)
+      fail('FFmpeg process error: ' + err.message).then(resolve)
+    })
+
+    // Track if we've found the duration
+    let totalDuration = defaultDuration
+    let durationFound = false
+
+    // Capture stderr for progress tracking
+    ffmpeg.stderr.on('data', (data) => {
+      const output = data.toString()
+
+      // First try to find duration in the output
+      if (!durationFound) {
+        const durationMatch = output.match(/Duration: ([\d:.]+)/)
+        if (durationMatch && durationMatch[1]) {
+          totalDuration = parseTimestamp(durationMatch[1])
+          durationFound = true
+          console.log(`Detected ${label.toLowerCase()} duration: ${totalDuration} seconds`)
+        }
+      }
+
+      // Look for time=00:00:00.00 pattern in FFmpeg output
+      const timeMatch = output.match(/time=([\d:.]+)/)
+      if (timeMatch && timeMatch[1]) {
+        const seconds = parseTimestamp(timeMatch[1])
+
+        // Calculate progress based on detected duration
+        const progress = Math.min(99, Math.round((seconds / totalDuration) * 100))
+
+        // Calculate estimated time remaining
+        if (progress > 0) {
+          const elapsedMs = Date.now() - startTime
+          const estimatedTotalMs = (elapsedMs / progress) * 100
+          const estimatedRemainingMs = Math.max(0, estimatedTotalMs - elapsedMs)
+          jobService.updateProgress(jobId, progress, 'processing', Math.round(estimatedRemainingMs / 1000))
+        } else {
+          jobService.updateProgress(jobId, progress, 'processing')
+        }
+      }
+    })
+
+    ffmpeg.on('close', async (code) => {
+      if (settled) return
+      if (code !== 0 || cancelled) {
+        resolve(await fail(`${label} conversion failed`))
+        return
+      }
+
+      try {
+        const { size } = await stat(outputPath)
+        settled = true
+        stopWatchingCancel()
+        await unlink(inputPath).catch(() => {})
+
+        await jobService.updateJob(jobId, {
+          status: JobStatus.COMPLETED,
+          progress: 100,
+          stage: 'completed',
+          estimatedTimeRemaining: 0,
+          contentType,
+          outputS3Location: { bucket: STAGING_BUCKET, key: basename(outputPath), size }
+        })
+        resolve({ success: true })
+      } catch (error) {
+        console.error(`Failed to finalize ${label.toLowerCase()} output:`, error)
+        resolve(await fail('File processing error'))
+      }
+    })
+  })
+}
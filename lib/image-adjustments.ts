@@ -0,0 +1,71 @@
+import sharp from 'sharp'
+import { rewrap } from './image-transform'
+
+// Filters applied after resizing, so sharpening and blurring work at the
+// output size. Trim is the exception that changes the dimensions: it cuts
+// uniform borders off the resized image.
+
+export interface ImageAdjustments {
+  sharpen: number // Unsharp mask sigma; 0 is off
+  blur: number // Gaussian blur sigma; 0 is off
+  brightness: number // Multipliers, 1 leaves the image unchanged
+  saturation: number
+  contrast: number
+  grayscale: boolean
+  normalize: boolean // Stretch luminance to the full range
+  trim: boolean // Remove borders that match the top-left pixel
+  flatten?: string // Hex colour to put behind transparent pixels
+}
+
+// Values that leave the image as it is
+const NEUTRAL: ImageAdjustments = {
+  sharpen: 0,
+  blur: 0,
+  brightness: 1,
+  saturation: 1,
+  contrast: 1,
+  grayscale: false,
+  normalize: false,
+  trim: false
+}
+
+// Accepted values of the numeric adjustments. sharp rejects blur sigmas
+// below 0.3, so the blur range starts there once it's switched on.
+export const ADJUSTMENT_RANGES = {
+  sharpen: { min: 0, max: 10 },
+  blur: { min: 0.3, max: 50 },
+  brightness: { min: 0, max: 3 },
+  saturation: { min: 0, max: 3 },
+  contrast: { min: 0, max: 3 }
+} as const
+
+export function hasAdjustments(adjustments: ImageAdjustments): boolean {
+  return (Object.keys(NEUTRAL) as (keyof ImageAdjustments)[])
+    .some((key) => adjustments[key] !== NEUTRAL[key]) || !!adjustments.flatten
+}
+
+// Trim runs on re-wrapped pixels (see applyAdjustments), which leaves the
+// source's EXIF/XMP/IPTC behind
+export function adjustmentsKeepMetadata(adjustments: ImageAdjustments): boolean {
+  return !adjustments.trim
+}
+
+// Applies the filters to a pipeline, after any resize
+export async function applyAdjustments(sharpInstance: sharp.Sharp, adjustments: ImageAdjustments): Promise<sharp.Sharp> {
+  if (!hasAdjustments(adjustments)) return sharpInstance
+
+  // sharp trims before cropping and resizing, whatever the call order, so
+  // settle the crop and the output size first
+  let adjusted = adjustments.trim ? (await rewrap(sharpInstance)).trim() : sharpInstance
+  if (adjustments.flatten) adjusted = adjusted.flatten({ background: adjustments.flatten })
+  if (adjustments.blur) adjusted = adjusted.blur(adjustments.blur)
+  if (adjustments.sharpen) adjusted = adjusted.sharpen({ sigma: adjustments.sharpen })
+  if (adjustments.brightness !== 1 || adjustments.saturation !== 1) {
+    adjusted = adjusted.modulate({ brightness: adjustments.brightness, saturation: adjustments.saturation })
+  }
+  // Scales the distance from mid-grey; sharp leaves the alpha channel alone
+  if (adjustments.contrast !== 1) adjusted = adjusted.linear(adjustments.contrast, 128 * (1 - adjustments.contrast))
+  if (adjustments.grayscale) adjusted = adjusted.grayscale()
+  if (adjustments.normalize) adjusted = adjusted.normalise()
+  return adjusted
+}
@@ -0,0 +1,154 @@
+import sharp from 'sharp'
+import { spawn } from 'child_process'
+import { readFile, writeFile, unlink } from 'fs/promises'
+import { detectCodecInput, CodecInput } from './image-signature'
+import { stagingPath, newStagingId } from './staging-store'
+import { serverConfig } from './server-config'
+
+// Decoding and encoding that sharp's prebuilt libvips can't always do. Each
+// codec uses libvips when the build has it and otherwise a command-line tool:
+// - HEIC/HEIF: heif-convert (libheif), HEIF_CONVERT_PATH
+// - JPEG XL: djxl and cjxl (libjxl), DJXL_PATH and CJXL_PATH
+// - camera RAW: dcraw, DCRAW_PATH (libvips has no RAW support at all)
+// - lossless JPEG recompression: jpegtran (libjpeg-turbo), JPEGTRAN_PATH; only
+//   the tool can rewrite a JPEG without decoding it
+// Files converted by a tool lose their EXIF, since the tools write plain pixels.
+
+export class CodecUnavailableError extends Error {
+  constructor(readonly codec: string, readonly direction: 'input' | 'output', tool: string, envVar: string) {
+    super(`${codec} ${direction === 'input' ? 'decoding' : 'encoding'} is not available in this build: ` +
+      `sharp's libvips doesn't support it and ${tool} was not found (install it or set ${envVar})`)
+    this.name = 'CodecUnavailableError'
+  }
+}
+
+interface CodecTool {
+  codec: string
+  command: string
+  envVar: string
+}
+
+const DECODERS: Record<CodecInput, CodecTool> = {
+  heif: { codec: 'HEIC/HEIF', command: 'heif-convert', envVar: 'HEIF_CONVERT_PATH' },
+  jxl: { codec: 'JPEG XL', command: 'djxl', envVar: 'DJXL_PATH' },
+  raw: { codec: 'Camera RAW', command: 'dcraw', envVar: 'DCRAW_PATH' },
+}
+
+const JXL_ENCODER: CodecTool = { codec: 'JPEG XL', command: 'cjxl', envVar: 'CJXL_PATH' }
+const JPEG_RECOMPRESSOR: CodecTool = { codec: 'Lossless JPEG', command: 'jpegtran', envVar: 'JPEGTRAN_PATH' }
+
+// Runs a codec tool to completion and returns its stdout
+function runTool(tool: CodecTool, direction: 'input' | 'output', args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.env[tool.envVar] || tool.command, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+    const stdout: Buffer[] = []
+    let stderrTail = ''
+
+    child.stdout.on('data', (data: Buffer) => stdout.push(data))
+    child.stderr.on('data', (data) => {
+      stderrTail = (stderrTail + data.toString()).slice(-2000)
+    })
+
+    // A failed spawn emits both 'error' and 'close'; only the first one counts
+    let settled = false
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (settled) return
+      settled = true
+      reject(error.code === 'ENOENT'
+        ? new CodecUnavailableError(tool.codec, direction, tool.command, tool.envVar)
+        : error)
+    })
+    child.on('close', (code) => {
+      if (settled) return
+      settled = true
+      if (code === 0) {
+        resolve(Buffer.concat(stdout))
+      } else {
+        console.error(`${tool.command} exited with ${code}:`, stderrTail)
+        reject(new Error(`${tool.codec} ${direction === 'input' ? 'decoding' : 'encoding'} failed`))
+      }
+    })
+  })
+}
+
+// Whether this sharp build decodes the buffer, found by decoding it. Metadata
+// alone isn't enough: libheif reads HEIC headers without an HEVC decoder.
+async function sharpDecodes(buffer: Buffer): Promise<boolean> {
+  try {
+    await sharp(buffer, { limitInputPixels: serverConfig.maxInputPixels }).raw().toBuffer()
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Returns input that sharp can read: the upload itself when sharp decodes it,
+// otherwise a lossless conversion (PNG, or 16-bit TIFF for RAW) made by the
+// matching command-line tool. Throws CodecUnavailableError if neither works.
+export async function decodeImageInput(buffer: Buffer, fileName: string): Promise<Buffer> {
+  const kind = detectCodecInput(buffer, fileName)
+  if (!kind) return buffer
+
+  if (kind === 'jxl' && sharp.format.jxl?.input.buffer) return buffer
+  if (kind === 'heif' && await sharpDecodes(buffer)) return buffer
+
+  const id = newStagingId()
+  const inputPath = stagingPath(`${id}.${kind}`)
+  const outputPath = stagingPath(`${id}.png`)
+
+  try {
+    await writeFile(inputPath, buffer)
+
+    switch (kind) {
+      case 'heif':
+        await runTool(DECODERS.heif, 'input', [inputPath, outputPath])
+        return await readFile(outputPath)
+      case 'jxl':
+        await runTool(DECODERS.jxl, 'input', [inputPath, outputPath])
+        return await readFile(outputPath)
+      case 'raw':
+        // -c: TIFF to stdout, -w: camera white balance, -6 -T: 16-bit TIFF
+        return await runTool(DECODERS.raw, 'input', ['-c', '-w', '-6', '-T', inputPath])
+    }
+  } finally {
+    await unlink(inputPath).catch(() => {})
+    await unlink(outputPath).catch(() => {})
+  }
+}
+
+// Encodes a pipeline as JPEG XL with libvips when available, otherwise with
+// cjxl from a lossless PNG (which carries any embedded colour profile along)
+export async function encodeJxl(sharpInstance: sharp.Sharp, quality: number, lossless = false): Promise<Buffer> {
+  if (sharp.format.jxl?.output.buffer) {
+    return sharpInstance.jxl(lossless ? { lossless: true, effort: 7 } : { quality, effort: 7 }).toBuffer()
+  }
+
+  const id = newStagingId()
+  const inputPath = stagingPath(`${id}.png`)
+  const outputPath = stagingPath(`${id}.jxl`)
+
+  try {
+    await writeFile(inputPath, await sharpInstance.png({ compressionLevel: 1 }).toBuffer())
+    // Distance 0 is mathematically lossless
+    const target = lossless ? ['-d', '0'] : ['-q', quality.toString()]
+    await runTool(JXL_ENCODER, 'output', [inputPath, outputPath, ...target, '-e', '7'])
+    return await readFile(outputPath)
+  } finally {
+    await unlink(inputPath).catch(() => {})
+    await unlink(outputPath).catch(() => {})
+  }
+}
+
+// Rewrites a JPEG's entropy coding (optimised Huffman tables, progressive
+// scans) without touching its quantised coefficients, so it decodes to exactly
+// the same pixels. copy keeps every marker, or only the colour profile.
+export async function recompressJpeg(buffer: Buffer, copy: 'all' | 'icc'): Promise<Buffer> {
+  const inputPath = stagingPath(`${newStagingId()}.jpg`)
+
+  try {
+    await writeFile(inputPath, buffer)
+    return await runTool(JPEG_RECOMPRESSOR, 'output', ['-copy', copy, '-optimize', '-progressive', inputPath])
+  } finally {
+    await unlink(inputPath).catch(() => {})
+  }
+}
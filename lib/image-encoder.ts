@@ -0,0 +1,337 @@
+import sharp from 'sharp'
+import { jobService, JobCancelledError } from './job-service'
+import { prepareReference, scoreAgainst } from './image-quality'
+import { encodeJxl } from './image-codecs'
+
+// Encodes a (cloned) sharp pipeline in the given format at a 1-100 quality
+export async function encodeImage(sharpInstance: sharp.Sharp, format: string, quality: number): Promise<Buffer> {
+  const instance = sharpInstance.clone()
+
+  switch (format) {
+    case 'webp':
+      return instance.webp({
+        quality,
+        effort: 6, // Higher effort for better compression
+        smartSubsample: true
+      }).toBuffer()
+    case 'avif':
+      return instance.avif({
+        quality,
+        effort: 4,
+        chromaSubsampling: '4:2:0'
+      }).toBuffer()
+    case 'jpeg':
+      return instance.jpeg({
+        quality,
+        progressive: true,
+        mozjpeg: true,
+        optimiseScans: true,
+        trellisQuantisation: true
+      }).toBuffer()
+    case 'png': {
+      // PNG compression - use both compressionLevel and palette strategies
+      const compressionLevel = Math.max(1, Math.min(9, Math.round((100 - quality) / 11)))
+      const useQuantization = quality < 70
+
+      if (useQuantization) {
+        // Use quantization for aggressive compression
+        return instance.png({
+          compressionLevel: 9,
+          progressive: true,
+          palette: true,
+          quality,
+          colours: Math.max(16, Math.min(256, Math.round(quality * 2.56)))
+        }).toBuffer()
+      }
+      return instance.png({
+        compressionLevel,
+        progressive: true
+      }).toBuffer()
+    }
+    case 'jxl':
+      return encodeJxl(instance, quality)
+    default:
+      return instance.webp({
+        quality,
+        effort: 6
+      }).toBuffer()
+  }
+}
+
+// Encodes without discarding anything: lossless WebP, AVIF and JPEG XL, and
+// PNG at maximum compression with every colour kept. There is no lossless JPEG
+// encoder; JPEG sources are recompressed as they are (recompressJpeg) instead.
+export async function encodeLossless(sharpInstance: sharp.Sharp, format: string): Promise<Buffer> {
+  const instance = sharpInstance.clone()
+
+  switch (format) {
+    case 'webp':
+      return instance.webp({ lossless: true, effort: 6 }).toBuffer()
+    case 'avif':
+      return instance.avif({ lossless: true, effort: 4 }).toBuffer()
+    case 'png':
+      return instance.png({ compressionLevel: 9, adaptiveFiltering: true, palette: false }).toBuffer()
+    case 'jxl':
+      return encodeJxl(instance, 100, true)
+    default:
+      throw new Error(`${format} has no lossless encoding`)
+  }
+}
+
+interface SearchOptions {
+  jobId?: string
+  signal?: AbortSignal
+}
+
+// One encode of a quality search: honours cancellation and reports progress
+function searchStep(
+  { jobId, signal }: SearchOptions,
+  describe: (attempt: number, quality: number) => string
+): (instance: sharp.Sharp, format: string, quality: number) => Promise<Buffer> {
+  let attempts = 0
+
+  return (instance, format, quality) => {
+    // A running encode can't be interrupted, but we can stop before the next one
+    if (signal?.aborted) throw new JobCancelledError(jobId!)
+
+    attempts++
+    if (jobId) {
+      jobService.updateProgress(jobId, Math.min(95, 70 + attempts * 2), describe(attempts, quality))
+    }
+    return encodeImage(instance, format, quality)
+  }
+}
+
+export interface TargetSizeResult {
+  buffer: Buffer
+  quality: number
+  width?: number
+  height?: number
+  scale: number // 1 unless the image had to be downscaled to fit the budget
+}
+
+export class TargetSizeError extends Error {
+  constructor(readonly targetSize: number, readonly smallestSize: number) {
+    super(`Cannot reach the target size of ${targetSize} bytes (smallest result was ${smallestSize} bytes). Try allowing downscaling or a different format.`)
+    this.name = 'TargetSizeError'
+  }
+}
+
+const MIN_QUALITY = 1
+const MAX_QUALITY = 100
+const MAX_DOWNSCALE_ROUNDS = 4
+const MIN_DIMENSION = 16
+
+// Binary-searches quality for the largest output that still fits in targetSize
+// bytes. If even the lowest quality is too big and downscaling is allowed, the
+// image is shrunk in proportion to the overshoot and searched again.
+export async function encodeToTargetSize(
+  sharpInstance: sharp.Sharp,
+  format: string,
+  targetSize: number,
+  options: SearchOptions & { allowDownscale?: boolean } = {}
+): Promise<TargetSizeResult> {
+  let instance = sharpInstance
+  let scale = 1
+  let smallestSize = Infinity
+
+  const step = searchStep(options, (attempt, quality) =>
+    `fitting ${Math.round(targetSize / 1024)}KB (attempt ${attempt}, quality ${quality}%${scale < 1 ? `, ${Math.round(scale * 100)}% size` : ''})`
+  )
+  const encode = async (quality: number): Promise<Buffer> => {
+    const buffer = await step(instance, format, quality)
+    smallestSize = Math.min(smallestSize, buffer.length)
+    return buffer
+  }
+
+  for (let round = 0; round <= MAX_DOWNSCALE_ROUNDS; round++) {
+    let low = MIN_QUALITY
+    let high = MAX_QUALITY
+    let best: { buffer: Buffer; quality: number } | null = null
+
+    while (low <= high) {
+      const quality = Math.floor((low + high) / 2)
+      const buffer = await encode(quality)
+
+      if (buffer.length <= targetSize) {
+        best = { buffer, quality }
+        low = quality + 1
+      } else {
+        high = quality - 1
+      }
+    }
+
+    if (best) {
+      const { width, height } = await sharp(best.buffer).metadata()
+      return { ...best, width, height, scale }
+    }
+
+    if (!options.allowDownscale) break
+
+    // Size grows roughly with pixel count, so shrink each side by the square root of the overshoot
+    const lowest = await encode(MIN_QUALITY)
+    const { width, height } = await sharp(lowest).metadata()
+    if (!width || !height) break
+
+    const factor = Math.sqrt(targetSize / lowest.length) * 0.9
+    const newWidth = Math.round(width * factor)
+    const newHeight = Math.round(height * factor)
+    if (newWidth < MIN_DIMENSION || newHeight < MIN_DIMENSION) break
+
+    // A second resize replaces the first, so this also honours any requested
+    // width/height. Crops that a plain resize would lose, such as presets, must
+    // have been re-wrapped by the caller.
+    instance = sharpInstance.clone().resize(newWidth, newHeight, {
+      fit: 'inside',
+      kernel: sharp.kernel.lanczos3
+    })
+    scale *= factor
+  }
+
+  throw new TargetSizeError(targetSize, smallestSize)
+}
+
+export interface PerceptualResult {
+  buffer: Buffer
+  quality: number
+  score: number // SSIM against the decoded source, 0-1
+}
+
+export class PerceptualTargetError extends Error {
+  constructor(readonly minScore: number, readonly bestScore: number) {
+    super(`Cannot reach SSIM ${minScore} in this format (best was ${bestScore.toFixed(4)}). Try a different format.`)
+    this.name = 'PerceptualTargetError'
+  }
+}
+
+// Binary-searches for the lowest quality whose output still scores at least
+// minScore (SSIM) against the source, i.e. the smallest file that looks right
+export async function encodeToPerceptualTarget(
+  sharpInstance: sharp.Sharp,
+  format: string,
+  minScore: number,
+  options: SearchOptions = {}
+): Promise<PerceptualResult> {
+  const reference = await prepareReference(sharpInstance)
+  const step = searchStep(options, (attempt, quality) =>
+    `matching SSIM ${minScore} (attempt ${attempt}, quality ${quality}%)`
+  )
+
+  let low = MIN_QUALITY
+  let high = MAX_QUALITY
+  let best: PerceptualResult | null = null
+  let bestScore = 0
+
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2)
+    const buffer = await step(sharpInstance, format, quality)
+    const score = await scoreAgainst(reference, buffer)
+    bestScore = Math.max(bestScore, score)
+
+    if (score >= minScore) {
+      best = { buffer, quality, score }
+      high = quality - 1
+    } else {
+      low = quality + 1
+    }
+  }
+
+  if (!best) throw new PerceptualTargetError(minScore, bestScore)
+  return best
+}
+
+// SSIM of an already encoded result, for reporting
+export async function measureScore(sharpInstance: sharp.Sharp, output: Buffer): Promise<number> {
+  return scoreAgainst(await prepareReference(sharpInstance), output)
+}
+
+export const RACE_FORMATS = ['webp', 'avif', 'jpeg', 'png'] as const
+
+// sharp's defaults (AVIF 50, WebP/JPEG 80) look about the same, so AVIF quality
+// is scaled down to keep formats comparable at a given slider position
+const QUALITY_SCALE: Record<string, number> = { avif: 50 / 80 }
+
+export function comparableQuality(format: string, quality: number): number {
+  return Math.max(MIN_QUALITY, Math.round(quality * (QUALITY_SCALE[format] ?? 1)))
+}
+
+// Without an explicit minSsim, candidates must at least look this close to the source
+const DEFAULT_RACE_MIN_SCORE = 0.95
+
+export interface FormatCandidate {
+  format: string
+  size: number
+  quality: number
+  score: number
+  meetsBar: boolean
+}
+
+export interface FormatRaceResult {
+  buffer: Buffer
+  format: string
+  quality: number
+  score: number
+  candidates: FormatCandidate[]
+}
+
+// Encodes every format in turn, either at a comparable quality or at the
+// lowest quality that reaches minScore, and keeps the smallest that looks good
+// enough. If nothing meets the bar in quality mode, the best-looking one wins.
+export async function raceFormats(
+  sharpInstance: sharp.Sharp,
+  target: { quality: number } | { minScore: number },
+  options: SearchOptions = {}
+): Promise<FormatRaceResult> {
+  const reference = await prepareReference(sharpInstance)
+  const minScore = 'minScore' in target ? target.minScore : DEFAULT_RACE_MIN_SCORE
+
+  // One format at a time: the whole race holds a single sharp queue slot, so it
+  // must not run more encodes at once than any other request
+  const entries: { format: string; buffer: Buffer | null; quality: number; score: number }[] = []
+  // JPEG would fill transparent areas in, so it only races for opaque sources
+  const { hasAlpha } = await sharpInstance.metadata()
+  const formats = hasAlpha ? RACE_FORMATS.filter((format) => format !== 'jpeg') : RACE_FORMATS
+  for (const format of formats) {
+    if ('minScore' in target) {
+      try {
+        const matched = await encodeToPerceptualTarget(sharpInstance, format, target.minScore, options)
+        entries.push({ format, buffer: matched.buffer, quality: matched.quality, score: matched.score })
+      } catch (error) {
+        if (!(error instanceof PerceptualTargetError)) throw error
+        entries.push({ format, buffer: null, quality: 0, score: error.bestScore })
+      }
+      continue
+    }
+
+    const quality = comparableQuality(format, target.quality)
+    const step = searchStep(options, () => `racing formats (${format} at quality ${quality}%)`)
+    const buffer = await step(sharpInstance, format, quality)
+    entries.push({ format, buffer, quality, score: await scoreAgainst(reference, buffer) })
+  }
+
+  const candidates: FormatCandidate[] = entries.map(({ format, buffer, quality, score }) => ({
+    format,
+    size: buffer?.length ?? 0,
+    quality,
+    score,
+    meetsBar: !!buffer && score >= minScore
+  }))
+
+  const passing = entries.filter((entry, i) => candidates[i].meetsBar)
+  let winner = passing.sort((a, b) => a.buffer!.length - b.buffer!.length)[0]
+
+  if (!winner) {
+    if ('minScore' in target) {
+      throw new PerceptualTargetError(minScore, Math.max(...entries.map((entry) => entry.score)))
+    }
+    winner = entries.reduce((best, entry) => (entry.score > best.score ? entry : best))
+  }
+
+  return {
+    buffer: winner.buffer!,
+    format: winner.format,
+    quality: winner.quality,
+    score: winner.score,
+    candidates
+  }
+}
@@ -0,0 +1,81 @@
+import sharp from 'sharp'
+import { readExif, readIccDescription, ExifSummary } from './metadata-parser'
+import { animationInfo, AnimationInfo } from './animation'
+
+// What happens to the source's metadata in the optimized output:
+// - strip: nothing is kept, GPS included (sharp's default)
+// - icc: only the colour profile and the orientation tag
+// - copyright: colour profile, orientation, and the Artist/Copyright fields
+// - all: EXIF, XMP, IPTC and the colour profile, GPS included
+export const METADATA_MODES = ['strip', 'icc', 'copyright', 'all'] as const
+
+export type MetadataMode = typeof METADATA_MODES[number]
+
+export function isMetadataMode(value: unknown): value is MetadataMode {
+  return typeof value === 'string' && (METADATA_MODES as readonly string[]).includes(value)
+}
+
+export interface MetadataReport {
+  format?: string
+  width?: number
+  height?: number
+  space?: string
+  channels?: number
+  hasAlpha?: boolean
+  density?: number
+  pages: number // Frames of an animation or pages of a document; 1 for a plain image
+  animation: AnimationInfo | null
+  icc: { description?: string; size: number } | null
+  exif: ExifSummary | null
+  xmpSize: number
+  iptcSize: number
+}
+
+// Summary of what an image carries, for the metadata viewer
+export function describeMetadata(metadata: sharp.Metadata): MetadataReport {
+  return {
+    format: metadata.format,
+    width: metadata.width,
+    height: metadata.height,
+    space: metadata.space,
+    channels: metadata.channels,
+    hasAlpha: metadata.hasAlpha,
+    density: metadata.density,
+    pages: metadata.pages ?? 1,
+    animation: animationInfo(metadata),
+    icc: metadata.icc ? { description: readIccDescription(metadata.icc), size: metadata.icc.length } : null,
+    exif: metadata.exif ? readExif(metadata.exif) : null,
+    xmpSize: metadata.xmp?.length ?? 0,
+    iptcSize: metadata.iptc?.length ?? 0,
+  }
+}
+
+// Applies a metadata mode to a pipeline, after any resizing and before encoding.
+// sharp can only keep all of the source's EXIF or none of it, so the selective
+// modes re-wrap the decoded pixels and write the fields to keep from scratch.
+// outputProfile is a staged ICC file to convert to and embed instead of sRGB;
+// it is embedded even in strip mode.
+export async function applyMetadataMode(
+  sharpInstance: sharp.Sharp,
+  mode: MetadataMode,
+  metadata: sharp.Metadata,
+  outputProfile?: string
+): Promise<sharp.Sharp> {
+  if (mode === 'strip' && !outputProfile) return sharpInstance
+  if (mode === 'all') return sharpInstance.withMetadata({ icc: outputProfile })
+
+  const { data, info } = await sharpInstance.clone().raw().toBuffer({ resolveWithObject: true })
+  const bare = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+
+  let exif: Record<string, Record<string, string>> | undefined
+  if (mode === 'copyright') {
+    const source = metadata.exif ? readExif(metadata.exif) : null
+    const fields: Record<string, string> = {}
+    if (source?.artist) fields.Artist = source.artist
+    if (source?.copyright) fields.Copyright = source.copyright
+    if (Object.keys(fields).length) exif = { IFD0: fields }
+  }
+
+  // The pixels were never rotated, so the orientation tag has to come along
+  return bare.withMetadata({ orientation: metadata.orientation, exif, icc: outputProfile })
+}
@@ -0,0 +1,88 @@
+import sharp from 'sharp'
+
+// Images are compared at this size at most; SSIM is stable well below full resolution
+const COMPARE_MAX_DIMENSION = 512
+const WINDOW = 8
+const STRIDE = 4
+const C1 = (0.01 * 255) ** 2
+const C2 = (0.03 * 255) ** 2
+
+export interface GreyImage {
+  data: Buffer
+  width: number
+  height: number
+}
+
+// Luma plane of an image, flattened onto white so transparent areas compare equal
+async function toGrey(image: sharp.Sharp, width?: number, height?: number): Promise<GreyImage> {
+  const resized = width && height
+    ? image.resize(width, height, { fit: 'fill' })
+    : image.resize(COMPARE_MAX_DIMENSION, COMPARE_MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+
+  const { data, info } = await resized
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  return { data, width: info.width, height: info.height }
+}
+
+// Decodes the reference once so every candidate in a search can be scored against it.
+// Its downsizing replaces any resize in the pipeline, so crops made by resizing
+// (presets) must already be re-wrapped.
+export function prepareReference(sharpInstance: sharp.Sharp): Promise<GreyImage> {
+  return toGrey(sharpInstance.clone())
+}
+
+// Mean structural similarity over 8x8 windows: 1 means identical, and
+// differences become visible somewhere below roughly 0.95 for photos
+export function ssim(a: GreyImage, b: GreyImage): number {
+  let total = 0
+  let windows = 0
+
+  for (let y = 0; y + WINDOW <= a.height; y += STRIDE) {
+    for (let x = 0; x + WINDOW <= a.width; x += STRIDE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0
+
+      for (let wy = 0; wy < WINDOW; wy++) {
+        const row = (y + wy) * a.width + x
+        for (let wx = 0; wx < WINDOW; wx++) {
+          const pa = a.data[row + wx]
+          const pb = b.data[row + wx]
+          sumA += pa
+          sumB += pb
+          sumAA += pa * pa
+          sumBB += pb * pb
+          sumAB += pa * pb
+        }
+      }
+
+      const n = WINDOW * WINDOW
+      const meanA = sumA / n
+      const meanB = sumB / n
+      const varA = sumAA / n - meanA * meanA
+      const varB = sumBB / n - meanB * meanB
+      const covariance = sumAB / n - meanA * meanB
+
+      total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2))
+      windows++
+    }
+  }
+
+  // Images smaller than one window are compared pixel for pixel
+  if (windows === 0) {
+    let same = 0
+    for (let i = 0; i < a.data.length; i++) if (a.data[i] === b.data[i]) same++
+    return a.data.length ? same / a.data.length : 1
+  }
+
+  return total / windows
+}
+
+// Scores an encoded candidate against a prepared reference
+export async function scoreAgainst(reference: GreyImage, candidate: Buffer): Promise<number> {
+  const grey = await toGrey(sharp(candidate), reference.width, reference.height)
+  return ssim(reference, grey)
+}
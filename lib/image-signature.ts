@@ -0,0 +1,57 @@
+// Recognises the inputs that sharp's prebuilt libvips can't always decode:
+// HEIC/HEIF (HEVC is patent-encumbered and left out), JPEG XL and camera RAW.
+// No sharp import, so the browser can use the extension lists too.
+
+export type CodecInput = 'heif' | 'jxl' | 'raw'
+
+// Camera RAW formats; most are TIFF underneath and only the extension tells them apart
+export const RAW_EXTENSIONS = ['dng', 'cr2', 'cr3', 'nef', 'nrw', 'arw', 'orf', 'rw2', 'raf', 'pef', 'srw']
+
+// Files the browser can't be relied on to display, so previews come from the server
+export const SERVER_DECODED_EXTENSIONS = ['heic', 'heif', 'jxl', ...RAW_EXTENSIONS]
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']
+const AVIF_BRANDS = ['avif', 'avis']
+const JXL_CONTAINER = [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a]
+
+function extensionOf(fileName: string): string {
+  return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+}
+
+export function needsServerDecode(fileName: string): boolean {
+  return SERVER_DECODED_EXTENSIONS.includes(extensionOf(fileName))
+}
+
+// ISO-BMFF major and compatible brands from the 'ftyp' box, or null for other files
+function ftypBrands(buffer: Buffer): string[] | null {
+  if (buffer.length < 16 || buffer.toString('latin1', 4, 8) !== 'ftyp') return null
+
+  const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length)
+  const brands = [buffer.toString('latin1', 8, 12)]
+  // Skip the minor version; the rest of the box is compatible brands
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(buffer.toString('latin1', offset, offset + 4))
+  }
+  return brands
+}
+
+// Which special decoder an upload needs, or null when sharp reads it as usual.
+// AVIF shares the HEIF container but sharp always decodes it.
+export function detectCodecInput(buffer: Buffer, fileName = ''): CodecInput | null {
+  const brands = ftypBrands(buffer)
+  if (brands) {
+    if (brands[0] === 'crx ') return 'raw' // Canon CR3
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return null
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return 'heif'
+    return null
+  }
+
+  if ((buffer[0] === 0xff && buffer[1] === 0x0a) || JXL_CONTAINER.every((byte, i) => buffer[i] === byte)) {
+    return 'jxl'
+  }
+
+  if (buffer.toString('latin1', 0, 15) === 'FUJIFILMCCD-RAW') return 'raw'
+  if (RAW_EXTENSIONS.includes(extensionOf(fileName))) return 'raw'
+
+  return null
+}
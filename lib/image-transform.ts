@@ -0,0 +1,105 @@
+import sharp from 'sharp'
+
+// Edits applied before resizing. They work on the image as it is displayed, so
+// any of them turns on auto-orientation first; the crop rectangle is in those
+// oriented pixels. Order: orient, crop, flip, rotate.
+
+export interface CropRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface ImageTransforms {
+  autoOrient: boolean // Apply the EXIF orientation to the pixels
+  crop?: CropRect
+  rotate: number // Degrees clockwise; multiples of 90 lose nothing
+  background: string // Fills the corners that other angles uncover
+  flipHorizontal: boolean
+  flipVertical: boolean
+}
+
+export const DEFAULT_ROTATE_BACKGROUND = '#ffffff'
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+export function isBackgroundColor(value: string): boolean {
+  return value === 'transparent' || COLOR_PATTERN.test(value)
+}
+
+// 'left,top,width,height' in whole pixels, or null if it isn't one
+export function parseCropRect(value: string): CropRect | null {
+  const parts = value.split(',').map((part) => Number(part.trim()))
+  if (parts.length !== 4 || parts.some((n) => !Number.isInteger(n) || n < 0)) return null
+
+  const [left, top, width, height] = parts
+  if (width === 0 || height === 0) return null
+  return { left, top, width, height }
+}
+
+// Degrees in [0, 360)
+export function normalizeAngle(degrees: number): number {
+  return ((degrees % 360) + 360) % 360
+}
+
+// Edits beyond auto-orientation
+export function hasGeometry(transforms: ImageTransforms): boolean {
+  return !!transforms.crop || transforms.flipHorizontal || transforms.flipVertical || normalizeAngle(transforms.rotate) !== 0
+}
+
+export function hasTransforms(transforms: ImageTransforms): boolean {
+  return transforms.autoOrient || hasGeometry(transforms)
+}
+
+// Whether the edits move any pixels of an image with this EXIF orientation;
+// auto-orientation leaves an upright image as it is
+export function changesGeometry(transforms: ImageTransforms, orientation = 1): boolean {
+  return hasGeometry(transforms) || (transforms.autoOrient && orientation > 1)
+}
+
+// Flips and explicit rotation run on re-wrapped pixels (see applyTransforms),
+// which leaves the source's EXIF/XMP/IPTC behind
+export function transformsKeepMetadata(transforms: ImageTransforms): boolean {
+  return !transforms.flipHorizontal && !transforms.flipVertical && normalizeAngle(transforms.rotate) === 0
+}
+
+// Size of the image as displayed, i.e. after its EXIF orientation
+export function orientedSize(metadata: sharp.Metadata): { width: number; height: number } {
+  const width = metadata.width ?? 0
+  const height = metadata.pageHeight ?? metadata.height ?? 0
+  // Orientations 5-8 turn the image on its side
+  return (metadata.orientation ?? 1) >= 5 ? { width: height, height: width } : { width, height }
+}
+
+// Applies the edits to a pipeline, before any resize. sharp allows a single
+// rotation per pipeline and auto-orientation uses it, so flips and explicit
+// rotation run on the decoded, oriented pixels.
+export async function applyTransforms(sharpInstance: sharp.Sharp, transforms: ImageTransforms): Promise<sharp.Sharp> {
+  if (!hasTransforms(transforms)) return sharpInstance
+
+  // extract after rotate crops the oriented image
+  let oriented = sharpInstance.rotate()
+  if (transforms.crop) oriented = oriented.extract(transforms.crop)
+  if (transformsKeepMetadata(transforms)) return oriented
+
+  const angle = normalizeAngle(transforms.rotate)
+  let edited = await rewrap(oriented)
+  // sharp always flips before rotating, whatever the call order
+  if (transforms.flipVertical) edited = edited.flip()
+  if (transforms.flipHorizontal) edited = edited.flop()
+  if (angle === 0) return edited
+
+  const background = transforms.background === 'transparent' ? { r: 0, g: 0, b: 0, alpha: 0 } : transforms.background
+  edited = edited.rotate(angle, { background })
+  // Other angles grow the canvas after any resize in the same pipeline, so
+  // settle the rotated size before the caller resizes
+  return angle % 90 === 0 ? edited : rewrap(edited)
+}
+
+// Materializes a pipeline's pixels into a fresh one, so later operations see its
+// final geometry. The source's EXIF/XMP/IPTC don't come along.
+export async function rewrap(pipeline: sharp.Sharp): Promise<sharp.Sharp> {
+  const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true })
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+}
@@ -0,0 +1,92 @@
+import type { JobProgress } from './job-service'
+
+// Browser-side helpers for the asynchronous conversion jobs
+
+// IDs for jobs whose progress is followed before the request is sent. Anyone
+// holding an ID can follow or cancel the job, so they must not be guessable.
+export function newJobId(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return `${prefix}_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`
+}
+
+function isFinished(data: JobProgress): boolean {
+  return data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled'
+}
+
+// Streams progress updates for a job over Server-Sent Events, falling back to
+// polling /api/progress where EventSource is unavailable. Returns a function that
+// stops listening; updates also stop once the job completes or fails.
+export function subscribeToProgress(
+  jobId: string,
+  onProgress: (data: JobProgress) => void,
+  pollIntervalMs = 1000
+): () => void {
+  const encodedId = encodeURIComponent(jobId)
+
+  if (typeof EventSource !== 'undefined') {
+    const source = new EventSource(`/api/progress/stream?jobId=${encodedId}`)
+
+    source.onmessage = (event) => {
+      const data: JobProgress = JSON.parse(event.data)
+      onProgress(data)
+      if (isFinished(data)) source.close()
+    }
+
+    // EventSource reconnects by itself after network errors
+    source.onerror = (err) => {
+      console.error('Progress stream error:', err)
+    }
+
+    return () => source.close()
+  }
+
+  const pollInterval = setInterval(async () => {
+    try {
+      const response = await fetch(`/api/progress?jobId=${encodedId}`)
+      if (!response.ok) return
+
+      const data: JobProgress = await response.json()
+      onProgress(data)
+
+      if (isFinished(data)) {
+        clearInterval(pollInterval)
+      }
+    } catch (err) {
+      console.error('Progress fetch error:', err)
+    }
+  }, pollIntervalMs)
+
+  return () => clearInterval(pollInterval)
+}
+
+// Follows a job's progress until it completes or fails and resolves with the final payload
+export function waitForJob(
+  jobId: string,
+  onProgress: (data: JobProgress) => void
+): Promise<JobProgress> {
+  return new Promise((resolve) => {
+    subscribeToProgress(jobId, (data) => {
+      onProgress(data)
+      if (isFinished(data)) resolve(data)
+    })
+  })
+}
+
+// Asks the server to stop a queued or running job. Finished jobs are left alone.
+export async function cancelJob(jobId: string): Promise<void> {
+  try {
+    await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' })
+  } catch (err) {
+    console.error('Cancel request failed:', err)
+  }
+}
+
+// Downloads the output of a completed job
+export async function fetchJobResult(jobId: string): Promise<Blob> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/result`)
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Download failed' }))
+    throw new Error(errorData.error || 'Download failed')
+  }
+  return response.blob()
+}
@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+import { mkdir, readdir, readFile, stat, writeFile, unlink } from 'fs/promises'
+import { join } from 'path'
+import { STAGING_DIR } from './staging-store'
+import { serverConfig } from './server-config'
+
+export enum JobStatus {
+  CREATED = 'created',
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// Where a job's input or output lives. Locally the bucket is the staging directory,
+// or INLINE_BUCKET for request bodies that are processed in memory.
+export interface StorageLocation {
+  bucket: string
+  key: string
+  size: number
+}
+
+export const STAGING_BUCKET = STAGING_DIR
+export const INLINE_BUCKET = 'inline'
+
+export interface Job {
+  jobId: string
+  status: JobStatus
+  inputS3Location: StorageLocation
+  outputS3Location?: StorageLocation
+  contentType?: string // MIME type of the output, set once it is available
+  format: string
+  quality: string
+  progress?: number
+  stage?: string // Human readable step, e.g. 'optimizing (attempt 2, quality 60%)'
+  estimatedTimeRemaining?: number | null
+  error?: string
+  createdAt: Date
+  updatedAt: Date
+  ttl: number // Unix timestamp (seconds) after which the job is discarded
+}
+
+export interface CreateJobInput {
+  jobId?: string
+  inputS3Location: StorageLocation
+  format: string
+  quality: string
+}
+
+// Shape served by /api/progress
+export interface JobProgress {
+  jobId: string
+  progress: number
+  status: string
+  estimatedTimeRemaining?: number | null
+  error?: string
+}
+
+// A job as written to disk, with its dates as ISO strings
+type SerializedJob = Omit<Job, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string }
+
+export type JobUpdate = Partial<Omit<Job, 'jobId' | 'createdAt' | 'updatedAt' | 'ttl'>>
+
+// Jobs are kept for 24 hours after creation
+const JOB_TTL_SECONDS = 24 * 60 * 60
+const JOB_STORE_DIR = serverConfig.jobStoreDir
+
+// Keep the store on the global object so it survives hot reloads in development
+declare global {
+  var jobStore: Map<string, Job> | undefined
+  var jobEvents: EventEmitter | undefined
+  var jobCancelHandlers: Map<string, Set<() => void>> | undefined
+}
+
+global.jobStore = global.jobStore || new Map<string, Job>()
+
+// Work that can be interrupted (FFmpeg processes, sharp loops, queue slots), keyed by job ID
+global.jobCancelHandlers = global.jobCancelHandlers || new Map<string, Set<() => void>>()
+
+// Progress listeners (SSE streams), keyed by job ID
+if (!global.jobEvents) {
+  global.jobEvents = new EventEmitter()
+  global.jobEvents.setMaxListeners(0)
+}
+
+function jobFilePath(jobId: string): string {
+  // Job IDs come from clients (/api/optimize), so never let them shape the path
+  return join(JOB_STORE_DIR, `${encodeURIComponent(jobId)}.json`)
+}
+
+function isSerializedJob(raw: unknown): raw is SerializedJob {
+  if (typeof raw !== 'object' || raw === null) return false
+  const job = raw as Record<string, unknown>
+  return typeof job.jobId === 'string'
+    && typeof job.status === 'string'
+    && typeof job.ttl === 'number'
+    && typeof job.createdAt === 'string'
+    && typeof job.updatedAt === 'string'
+}
+
+function reviveJob(raw: unknown): Job {
+  if (!isSerializedJob(raw)) throw new Error('Not a job record')
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  }
+}
+
+function isExpired(job: Job, now = Date.now()): boolean {
+  return job.ttl * 1000 <= now
+}
+
+export class JobCancelledError extends Error {
+  constructor(readonly jobId: string) {
+    super('Job was cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+// Client-chosen job IDs must be new; reusing one would take over someone else's job
+export class JobExistsError extends Error {
+  constructor(readonly jobId: string) {
+    super('jobId is already in use')
+    this.name = 'JobExistsError'
+  }
+}
+
+export function isJobFinished(status: string): boolean {
+  return status === JobStatus.COMPLETED || status === JobStatus.FAILED || status === JobStatus.CANCELLED
+}
+
+export function toJobProgress(job: Job): JobProgress {
+  return {
+    jobId: job.jobId,
+    progress: job.progress ?? 0,
+    // While waiting or running, report the detailed stage rather than the bare status
+    status: (job.status === JobStatus.QUEUED || job.status === JobStatus.PROCESSING) && job.stage
+      ? job.stage
+      : job.status,
+    estimatedTimeRemaining: job.estimatedTimeRemaining ?? null,
+    ...(job.error ? { error: job.error } : {}),
+  }
+}
+
+export class JobService {
+  private get store(): Map<string, Job> {
+    return global.jobStore!
+  }
+
+  private get events(): EventEmitter {
+    return global.jobEvents!
+  }
+
+  // Listeners may subscribe before the job exists; they receive every change from then on
+  subscribe(jobId: string, listener: (progress: JobProgress) => void): () => void {
+    this.events.on(jobId, listener)
+    return () => {
+      this.events.off(jobId, listener)
+    }
+  }
+
+  // Registers work to interrupt if the job is cancelled; call the returned function once it is done
+  onCancel(jobId: string, handler: () => void): () => void {
+    const handlers = global.jobCancelHandlers!
+    if (!handlers.has(jobId)) handlers.set(jobId, new Set())
+    handlers.get(jobId)!.add(handler)
+
+    return () => {
+      handlers.get(jobId)?.delete(handler)
+      if (handlers.get(jobId)?.size === 0) handlers.delete(jobId)
+    }
+  }
+
+  // Marks an unfinished job as cancelled and interrupts whatever is working on it.
+  // Finished jobs are returned unchanged.
+  async cancelJob(jobId: string): Promise<Job | null> {
+    const job = await this.getJob(jobId)
+    if (!job || isJobFinished(job.status)) return job
+
+    // Update the status first so handlers and their callers see the cancellation
+    const cancelled = await this.updateJob(jobId, { status: JobStatus.CANCELLED, stage: 'cancelled' })
+
+    const handlers = global.jobCancelHandlers!.get(jobId)
+    global.jobCancelHandlers!.delete(jobId)
+    handlers?.forEach((handler) => {
+      try {
+        handler()
+      } catch (error) {
+        console.error(`Cancel handler for job ${jobId} failed:`, error)
+      }
+    })
+
+    return cancelled
+  }
+
+  private notify(job: Job): void {
+    this.events.emit(job.jobId, toJobProgress(job))
+  }
+
+  async createJob(input: CreateJobInput): Promise<Job> {
+    // Nothing is awaited between this check and storing the job below
+    if (input.jobId && (await this.getJob(input.jobId) || this.store.has(input.jobId))) {
+      throw new JobExistsError(input.jobId)
+    }
+
+    const now = new Date()
+    const job: Job = {
+      jobId: input.jobId || randomUUID(),
+      status: JobStatus.CREATED,
+      inputS3Location: input.inputS3Location,
+      format: input.format,
+      quality: input.quality,
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+      ttl: Math.floor(now.getTime() / 1000) + JOB_TTL_SECONDS,
+    }
+
+    this.store.set(job.jobId, job)
+    this.notify(job)
+    await this.persist(job)
+    return job
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    let job = this.store.get(jobId)
+
+    if (!job) {
+      try {
+        job = reviveJob(JSON.parse(await readFile(jobFilePath(jobId), 'utf8')))
+        this.store.set(jobId, job)
+      } catch {
+        return null
+      }
+    }
+
+    if (isExpired(job)) {
+      await this.deleteJob(jobId)
+      return null
+    }
+
+    return job
+  }
+
+  // Jobs held in memory by this process, which includes every job still running here
+  listJobs(): Job[] {
+    return Array.from(this.store.values())
+  }
+
+  // Status changes are written through to disk so finished jobs can be inspected later
+  async updateJob(jobId: string, update: JobUpdate): Promise<Job | null> {
+    const job = await this.getJob(jobId)
+    if (!job) return null
+    // Work that was interrupted may still report back; cancellation is final
+    if (job.status === JobStatus.CANCELLED) return job
+
+    Object.assign(job, update, { updatedAt: new Date() })
+    this.notify(job)
+    await this.persist(job)
+    return job
+  }
+
+  // Progress ticks arrive many times per second, so they only touch memory
+  updateProgress(jobId: string, progress: number, stage?: string, estimatedTimeRemaining?: number | null): void {
+    const job = this.store.get(jobId)
+    if (!job || job.status === JobStatus.CANCELLED) return
+
+    job.progress = progress
+    if (stage !== undefined) job.stage = stage
+    if (estimatedTimeRemaining !== undefined) job.estimatedTimeRemaining = estimatedTimeRemaining
+    job.updatedAt = new Date()
+    this.notify(job)
+  }
+
+  updateStage(jobId: string, stage: string): void {
+    const job = this.store.get(jobId)
+    if (!job || job.status === JobStatus.CANCELLED) return
+
+    job.stage = stage
+    job.updatedAt = new Date()
+    this.notify(job)
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    this.store.delete(jobId)
+    await unlink(jobFilePath(jobId)).catch(() => {})
+  }
+
+  // Expired jobs are otherwise only dropped when someone looks them up, so the
+  // janitor calls this to clear them from memory and from disk. Returns how
+  // many job records were removed.
+  async sweepExpiredJobs(now = Date.now()): Promise<number> {
+    let removed = 0
+    for (const job of Array.from(this.store.values())) {
+      if (!isExpired(job, now)) continue
+      await this.deleteJob(job.jobId)
+      removed++
+    }
+
+    let names: string[]
+    try {
+      names = await readdir(JOB_STORE_DIR)
+    } catch {
+      return removed
+    }
+
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue
+      const path = join(JOB_STORE_DIR, name)
+      try {
+        if (!isExpired(reviveJob(JSON.parse(await readFile(path, 'utf8'))), now)) continue
+      } catch {
+        // Unreadable records go once they are older than any job could be
+        const info = await stat(path).catch(() => null)
+        if (!info || now - info.mtimeMs <= JOB_TTL_SECONDS * 1000) continue
+      }
+      await unlink(path).catch(() => {})
+      removed++
+    }
+    return removed
+  }
+
+  private async persist(job: Job): Promise<void> {
+    try {
+      await mkdir(JOB_STORE_DIR, { recursive: true })
+      await writeFile(jobFilePath(job.jobId), JSON.stringify(job))
+    } catch (error) {
+      // The in-memory copy is still authoritative for this process
+      console.error(`Failed to persist job ${job.jobId}:`, error)
+    }
+  }
+}
+
+export const jobService = new JobService()
@@ -0,0 +1,164 @@
+// Readers for the metadata blocks sharp hands back as raw buffers. Only the
+// handful of fields the UI shows or the optimizer preserves are decoded.
+
+export interface GpsPosition {
+  latitude?: number
+  longitude?: number
+}
+
+export interface ExifSummary {
+  make?: string
+  model?: string
+  software?: string
+  dateTime?: string
+  dateTimeOriginal?: string
+  imageDescription?: string
+  artist?: string
+  copyright?: string
+  orientation?: number
+  gps: GpsPosition | null // Present whenever the image carries a GPS block, even if it can't be decoded
+}
+
+type ExifTextField = 'imageDescription' | 'make' | 'model' | 'software' | 'dateTime' | 'artist' | 'copyright'
+
+const IFD0_TEXT_TAGS: Record<number, ExifTextField> = {
+  0x010e: 'imageDescription',
+  0x010f: 'make',
+  0x0110: 'model',
+  0x0131: 'software',
+  0x0132: 'dateTime',
+  0x013b: 'artist',
+  0x8298: 'copyright',
+}
+
+const ORIENTATION = 0x0112
+const EXIF_IFD_POINTER = 0x8769
+const GPS_IFD_POINTER = 0x8825
+const DATE_TIME_ORIGINAL = 0x9003
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+type TiffValue = string | number | number[]
+
+// Walks the entries of one IFD in a TIFF structure, as used by EXIF
+function readIfd(tiff: Buffer, offset: number, little: boolean): Map<number, TiffValue> {
+  const u16 = (at: number) => (little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at))
+  const u32 = (at: number) => (little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at))
+  const entries = new Map<number, TiffValue>()
+
+  if (offset + 2 > tiff.length) return entries
+  const count = u16(offset)
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12
+    if (entry + 12 > tiff.length) break
+
+    const tag = u16(entry)
+    const type = u16(entry + 2)
+    const length = u32(entry + 4)
+    const size = (TYPE_SIZES[type] ?? 0) * length
+    if (!size) continue
+
+    // Values of up to four bytes are stored in the entry itself
+    const at = size <= 4 ? entry + 8 : u32(entry + 8)
+    if (at + size > tiff.length) continue
+
+    if (type === 2) {
+      entries.set(tag, tiff.toString('latin1', at, at + size).replace(/\0+$/, '').trim())
+    } else if (type === 3) {
+      entries.set(tag, u16(at))
+    } else if (type === 4) {
+      entries.set(tag, u32(at))
+    } else if (type === 5) {
+      const values: number[] = []
+      for (let n = 0; n < length; n++) {
+        const denominator = u32(at + n * 8 + 4)
+        values.push(denominator ? u32(at + n * 8) / denominator : 0)
+      }
+      entries.set(tag, values)
+    }
+  }
+
+  return entries
+}
+
+function toDegrees(value: TiffValue | undefined, reference: TiffValue | undefined, negative: string): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600
+  return reference === negative ? -degrees : degrees
+}
+
+// Decodes an EXIF block (with or without its 'Exif\0\0' prefix). Returns null
+// if it isn't a TIFF structure.
+export function readExif(exif: Buffer): ExifSummary | null {
+  const tiff = exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? exif.subarray(6) : exif
+  if (tiff.length < 8) return null
+
+  const order = tiff.toString('latin1', 0, 2)
+  if (order !== 'II' && order !== 'MM') return null
+  const little = order === 'II'
+  const ifd0Offset = little ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4)
+
+  const ifd0 = readIfd(tiff, ifd0Offset, little)
+  const summary: ExifSummary = { gps: null }
+
+  for (const [tag, field] of Object.entries(IFD0_TEXT_TAGS)) {
+    const value = ifd0.get(Number(tag))
+    if (typeof value === 'string' && value) summary[field] = value
+  }
+
+  const orientation = ifd0.get(ORIENTATION)
+  if (typeof orientation === 'number') summary.orientation = orientation
+
+  const exifPointer = ifd0.get(EXIF_IFD_POINTER)
+  if (typeof exifPointer === 'number') {
+    const original = readIfd(tiff, exifPointer, little).get(DATE_TIME_ORIGINAL)
+    if (typeof original === 'string' && original) summary.dateTimeOriginal = original
+  }
+
+  const gpsPointer = ifd0.get(GPS_IFD_POINTER)
+  if (typeof gpsPointer === 'number') {
+    const gps = readIfd(tiff, gpsPointer, little)
+    summary.gps = {
+      latitude: toDegrees(gps.get(2), gps.get(1), 'S'),
+      longitude: toDegrees(gps.get(4), gps.get(3), 'W'),
+    }
+  }
+
+  return summary
+}
+
+// The human readable name of an ICC profile, e.g. 'Display P3' or 'sRGB IEC61966-2.1'
+export function readIccDescription(icc: Buffer): string | undefined {
+  if (icc.length < 132 || icc.toString('latin1', 36, 40) !== 'acsp') return undefined
+
+  const tagCount = icc.readUInt32BE(128)
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12
+    if (entry + 12 > icc.length) break
+    if (icc.toString('latin1', entry, entry + 4) !== 'desc') continue
+
+    const offset = icc.readUInt32BE(entry + 4)
+    const size = icc.readUInt32BE(entry + 8)
+    if (offset + size > icc.length || size < 12) return undefined
+    const type = icc.toString('latin1', offset, offset + 4)
+
+    if (type === 'desc') {
+      // ICC v2: a counted ASCII string
+      const length = icc.readUInt32BE(offset + 8)
+      return icc.toString('latin1', offset + 12, Math.min(offset + 12 + length, offset + size)).replace(/\0+$/, '')
+    }
+
+    if (type === 'mluc' && size >= 28) {
+      // ICC v4: localized UTF-16BE strings; the first record is good enough
+      const length = icc.readUInt32BE(offset + 20)
+      const start = offset + icc.readUInt32BE(offset + 24)
+      const end = Math.min(start + length, offset + size)
+      // swap16 needs an even number of bytes
+      const text = Buffer.from(icc.subarray(start, start + ((end - start) & ~1)))
+      return text.swap16().toString('utf16le').replace(/\0+$/, '')
+    }
+  }
+
+  return undefined
+}
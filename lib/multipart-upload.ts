@@ -0,0 +1,158 @@
+import busboy from 'busboy'
+import { createWriteStream } from 'fs'
+import { unlink } from 'fs/promises'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+
+export interface StreamedFile {
+  path: string
+  originalName: string
+  mimeType: string
+  size: number
+}
+
+export interface MultipartUpload {
+  fields: Record<string, string>
+  file?: StreamedFile
+}
+
+export interface MultipartOptions {
+  fileField: string
+  // Where to write the file, given the fields that arrived before it; may throw to reject the file
+  destination: (originalName: string, fields: Record<string, string>) => string
+  // Byte limit for the file, given the fields that arrived before it. Fields sent
+  // after the file can't tighten the limit while streaming, so callers re-check them.
+  maxFileSize: (fields: Record<string, string>) => number
+  idleTimeoutMs?: number
+}
+
+export class UploadTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`File exceeds the ${limit} byte limit`)
+    this.name = 'UploadTooLargeError'
+  }
+}
+
+export class UploadTimeoutError extends Error {
+  constructor() {
+    super('Request timed out')
+    this.name = 'UploadTimeoutError'
+  }
+}
+
+function byteLimit(limit: number, onBytes: (total: number) => void): Transform {
+  let total = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length
+      if (total > limit) {
+        callback(new UploadTooLargeError(limit))
+        return
+      }
+      onBytes(total)
+      callback(null, chunk)
+    },
+  })
+}
+
+// Parses a multipart/form-data body and streams its file part straight to disk,
+// so memory use stays flat whatever the upload size. The limit is enforced as
+// bytes arrive and the partial file is removed if it is exceeded.
+export function streamMultipartToDisk(request: Request, options: MultipartOptions): Promise<MultipartUpload> {
+  const { fileField, destination, maxFileSize, idleTimeoutMs = 120000 } = options
+
+  return new Promise((resolve, reject) => {
+    if (!request.body) {
+      reject(new Error('Request has no body'))
+      return
+    }
+
+    const fields: Record<string, string> = {}
+    const body = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>)
+    let file: StreamedFile | undefined
+    let fileWritten: Promise<void> = Promise.resolve()
+    let settled = false
+    let idleTimer: NodeJS.Timeout
+
+    const cleanup = async () => {
+      clearTimeout(idleTimer)
+      if (file) await unlink(file.path).catch(() => {})
+    }
+
+    const fail = (error: Error) => {
+      if (settled) return
+      settled = true
+      // Stop reading the rest of the request
+      body.destroy()
+      cleanup().finally(() => reject(error))
+    }
+
+    const touch = () => {
+      clearTimeout(idleTimer)
+      idleTimer = setTimeout(() => fail(new UploadTimeoutError()), idleTimeoutMs)
+    }
+
+    let parser: busboy.Busboy
+    try {
+      parser = busboy({ headers: { 'content-type': request.headers.get('content-type') || '' } })
+    } catch (error) {
+      reject(error)
+      return
+    }
+
+    parser.on('field', (name, value) => {
+      fields[name] = value
+    })
+
+    parser.on('file', (name, stream, info) => {
+      // Only the first file in the expected field is kept
+      if (name !== fileField || file) {
+        stream.resume()
+        return
+      }
+
+      let path: string
+      try {
+        path = destination(info.filename, fields)
+      } catch (error) {
+        stream.resume()
+        fail(error as Error)
+        return
+      }
+
+      const streamed: StreamedFile = {
+        path,
+        originalName: info.filename,
+        mimeType: info.mimeType,
+        size: 0,
+      }
+      file = streamed
+
+      fileWritten = pipeline(
+        stream,
+        byteLimit(maxFileSize(fields), (total) => {
+          streamed.size = total
+        }),
+        createWriteStream(streamed.path)
+      )
+      fileWritten.catch(fail)
+    })
+
+    parser.on('close', () => {
+      fileWritten.then(() => {
+        if (settled) return
+        settled = true
+        clearTimeout(idleTimer)
+        resolve({ fields, file })
+      }, fail)
+    })
+
+    parser.on('error', (error) => fail(error as Error))
+    body.on('error', fail)
+    body.on('data', touch)
+
+    touch()
+    body.pipe(parser)
+  })
+}
@@ -0,0 +1,116 @@
+import sharp from 'sharp'
+import { encodeImage, comparableQuality } from './image-encoder'
+import { jobService, JobCancelledError } from './job-service'
+import { orientedSize } from './image-transform'
+
+export const DEFAULT_WIDTHS = [320, 640, 960, 1280, 1920]
+export const MAX_WIDTHS = 10
+
+// In <source> order: browsers use the first type they support, and JPEG is the <img> fallback
+export const RESPONSIVE_FORMATS = ['avif', 'webp', 'jpeg'] as const
+
+const FILE_EXTENSIONS: Record<string, string> = { jpeg: 'jpg' }
+
+export interface ResponsiveVariant {
+  name: string
+  format: string
+  width: number
+  height: number
+  size: number
+  data: Buffer
+}
+
+export interface ResponsiveSet {
+  variants: ResponsiveVariant[]
+  html: string
+}
+
+export interface ResponsiveSetOptions {
+  baseName: string // File name stem for every variant, e.g. 'hero' -> 'hero-640.webp'
+  widths: number[]
+  quality: number
+  sizes: string // The <img sizes> attribute, e.g. '(min-width: 1024px) 50vw, 100vw'
+  alt: string
+  jobId?: string
+  signal?: AbortSignal
+}
+
+// Reduces an uploaded file name to something safe to use in URLs and zip paths
+export function responsiveBaseName(fileName: string): string {
+  const stem = fileName.replace(/\.[^.]*$/, '').toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '')
+  return stem.slice(0, 64) || 'image'
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// The ready-to-paste <picture> element for a set of variants
+export function pictureHtml(variants: ResponsiveVariant[], sizes: string, alt: string): string {
+  const srcset = (format: string) => variants
+    .filter((variant) => variant.format === format)
+    .map((variant) => `${variant.name} ${variant.width}w`)
+    .join(', ')
+
+  const fallbacks = variants.filter((variant) => variant.format === 'jpeg')
+  const largest = fallbacks[fallbacks.length - 1]
+  const sizesAttribute = escapeAttribute(sizes)
+
+  return [
+    '<picture>',
+    ...RESPONSIVE_FORMATS.filter((format) => format !== 'jpeg').map((format) =>
+      `  <source type="image/${format}" srcset="${srcset(format)}" sizes="${sizesAttribute}">`
+    ),
+    `  <img src="${largest.name}" srcset="${srcset('jpeg')}" sizes="${sizesAttribute}" ` +
+      `width="${largest.width}" height="${largest.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`,
+    '</picture>',
+  ].join('\n')
+}
+
+// Encodes every requested width in every responsive format. Widths wider than
+// the source are dropped rather than upscaled; if that leaves nothing, the
+// source width is used on its own. Photos are turned upright first, so widths
+// and heights are those of the oriented image.
+export async function generateResponsiveSet(
+  sharpInstance: sharp.Sharp,
+  options: ResponsiveSetOptions
+): Promise<ResponsiveSet> {
+  const { baseName, quality, jobId, signal } = options
+  const { width: sourceWidth, height: sourceHeight } = orientedSize(await sharpInstance.metadata())
+  if (!sourceWidth || !sourceHeight) throw new Error('Could not read image dimensions')
+  const upright = sharpInstance.rotate()
+
+  let widths = Array.from(new Set(options.widths)).filter((width) => width <= sourceWidth).sort((a, b) => a - b)
+  if (widths.length === 0) widths = [sourceWidth]
+
+  const total = widths.length * RESPONSIVE_FORMATS.length
+  const variants: ResponsiveVariant[] = []
+
+  for (const width of widths) {
+    const resized = upright.clone().resize(width, undefined, {
+      fit: 'inside',
+      withoutEnlargement: true,
+      kernel: sharp.kernel.lanczos3
+    })
+    const height = Math.round(sourceHeight * (width / sourceWidth))
+
+    for (const format of RESPONSIVE_FORMATS) {
+      if (signal?.aborted) throw new JobCancelledError(jobId!)
+      if (jobId) {
+        jobService.updateProgress(jobId, 10 + Math.round((variants.length / total) * 80), `encoding ${width}px ${format}`)
+      }
+
+      const data = await encodeImage(resized, format, comparableQuality(format, quality))
+      variants.push({
+        name: `${baseName}-${width}.${FILE_EXTENSIONS[format] ?? format}`,
+        format,
+        width,
+        height,
+        size: data.length,
+        data
+      })
+    }
+  }
+
+  return { variants, html: pictureHtml(variants, options.sizes, options.alt) }
+}
@@ -0,0 +1,84 @@
+import { join } from 'path'
+import type { StagedFileKind } from './staging-store'
+import { formatLimit } from './size-format'
+
+// Server limits, read once from the environment so a deployment can tune them
+// without code changes. Sizes are set in MB and held in bytes. GET /api/config
+// publishes the ones browsers check before uploading (see publicConfig).
+
+const MB = 1024 * 1024
+const MINUTE_MS = 60 * 1000
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+// Whole numbers such as queue sizes
+function readCount(name: string, fallback: number): number {
+  return Math.floor(readNumber(name, fallback)) || fallback
+}
+
+export interface QueueLimits {
+  maxConcurrent: number
+  maxQueued: number // Waiting tasks beyond which new work is refused with a 503
+}
+
+export interface ServerConfig {
+  maxImageSize: number // /api/optimize, /api/metadata and /api/responsive
+  maxImageDimension: number // Pixels on either side
+  maxInputPixels: number // Largest image sharp will decode at all
+  maxWatermarkLogoSize: number
+  uploadLimits: Record<StagedFileKind, number> // /api/upload, chunked and tus uploads
+  imageTimeoutMs: number // Longest /api/optimize may work on an image, not counting time queued
+  heapWarningBytes: number // Heap use above which /api/optimize asks for garbage collection
+  heapUnhealthyBytes: number // Heap use above which /api/health reports a warning
+  queues: { sharp: QueueLimits; ffmpeg: QueueLimits } // See lib/work-queue.ts
+  stagingTtlMs: number // Staged files untouched for longer than this are swept
+  stagingSweepIntervalMs: number
+  jobStoreDir: string // Where job records are written through to disk
+}
+
+export const serverConfig: ServerConfig = {
+  maxImageSize: readNumber('MAX_IMAGE_SIZE_MB', 50) * MB,
+  maxImageDimension: readNumber('MAX_IMAGE_DIMENSION', 8000),
+  maxInputPixels: readCount('MAX_INPUT_PIXELS', 268402689), // ~16k x 16k
+  maxWatermarkLogoSize: readNumber('MAX_WATERMARK_LOGO_SIZE_MB', 5) * MB,
+  uploadLimits: {
+    audio: readNumber('MAX_AUDIO_UPLOAD_MB', 200) * MB,
+    video: readNumber('MAX_VIDEO_UPLOAD_MB', 500) * MB,
+    image: readNumber('MAX_IMAGE_UPLOAD_MB', 10) * MB,
+  },
+  // App Runner gives up after 120 seconds
+  imageTimeoutMs: readNumber('IMAGE_TIMEOUT_SECONDS', 110) * 1000,
+  heapWarningBytes: readNumber('HEAP_WARNING_MB', 1536) * MB,
+  heapUnhealthyBytes: readNumber('HEAP_UNHEALTHY_MB', 1.8 * 1024) * MB,
+  queues: {
+    sharp: {
+      maxConcurrent: readCount('MAX_CONCURRENT_SHARP_JOBS', 2),
+      maxQueued: readCount('MAX_QUEUED_SHARP_JOBS', 20),
+    },
+    ffmpeg: {
+      maxConcurrent: readCount('MAX_CONCURRENT_FFMPEG_JOBS', 1),
+      maxQueued: readCount('MAX_QUEUED_FFMPEG_JOBS', 5),
+    },
+  },
+  stagingTtlMs: readNumber('STAGING_TTL_MINUTES', 60) * MINUTE_MS,
+  stagingSweepIntervalMs: readNumber('STAGING_SWEEP_INTERVAL_MINUTES', 10) * MINUTE_MS,
+  jobStoreDir: process.env.JOB_STORE_DIR || join('/tmp', 'tinypixo-jobs'),
+}
+
+// Uploads whose kind isn't known, such as tus uploads without a file name, get the most generous limit
+export const MAX_UPLOAD_SIZE = Math.max(...Object.values(serverConfig.uploadLimits))
+
+export type PublicConfig = Pick<ServerConfig, 'maxImageSize' | 'maxImageDimension' | 'maxWatermarkLogoSize' | 'uploadLimits'>
+
+export function publicConfig(): PublicConfig {
+  const { maxImageSize, maxImageDimension, maxWatermarkLogoSize, uploadLimits } = serverConfig
+  return { maxImageSize, maxImageDimension, maxWatermarkLogoSize, uploadLimits }
+}
+
+// Error message for a 413, e.g. 'File too large. Maximum size for video is 500MB'
+export function fileTooLargeMessage(limit: number, kind?: string): string {
+  return `File too large. Maximum size${kind ? ` for ${kind}` : ''} is ${formatLimit(limit)}`
+}
@@ -0,0 +1,7 @@
+// Sizes for display. Shared by the server, which names its limits in 413
+// messages, and the browser, which shows them before anything is uploaded.
+
+// A size limit for display, e.g. '50MB'
+export function formatLimit(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`
+}
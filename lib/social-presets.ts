@@ -0,0 +1,39 @@
+// Exact output sizes for social media. Images are resized to cover the whole
+// frame and the overflow is cropped where it matters least (see CROP_STRATEGIES).
+// No sharp import, so the browser can list the presets too.
+
+export interface SocialPreset {
+  label: string
+  width: number
+  height: number
+}
+
+export const SOCIAL_PRESETS = {
+  'open-graph': { label: 'Open Graph / link preview', width: 1200, height: 630 },
+  'instagram-square': { label: 'Instagram square', width: 1080, height: 1080 },
+  'instagram-portrait': { label: 'Instagram portrait', width: 1080, height: 1350 },
+  'instagram-story': { label: 'Instagram / TikTok story', width: 1080, height: 1920 },
+  'twitter-header': { label: 'X/Twitter header', width: 1500, height: 500 },
+  'twitter-post': { label: 'X/Twitter post', width: 1600, height: 900 },
+  'facebook-cover': { label: 'Facebook cover', width: 851, height: 315 },
+  'linkedin-banner': { label: 'LinkedIn banner', width: 1584, height: 396 },
+  'youtube-thumbnail': { label: 'YouTube thumbnail', width: 1280, height: 720 },
+} satisfies Record<string, SocialPreset>
+
+export type SocialPresetId = keyof typeof SOCIAL_PRESETS
+
+export function isSocialPresetId(value: unknown): value is SocialPresetId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SOCIAL_PRESETS, value)
+}
+
+// Which part of the image survives the crop:
+// - attention: the most eye-catching region (skin tones, saturation, detail)
+// - entropy: the busiest region
+// - centre: the middle, like a plain cover crop
+export const CROP_STRATEGIES = ['attention', 'entropy', 'centre'] as const
+
+export type CropStrategy = typeof CROP_STRATEGIES[number]
+
+export function isCropStrategy(value: unknown): value is CropStrategy {
+  return typeof value === 'string' && (CROP_STRATEGIES as readonly string[]).includes(value)
+}
@@ -0,0 +1,152 @@
+import { readdir, stat, statfs, unlink } from 'fs/promises'
+import { jobService, isJobFinished, STAGING_BUCKET } from './job-service'
+import { STAGING_DIR, STAGING_TTL_MS, isOwnedStagedFile, stagingPath } from './staging-store'
+import { serverConfig } from './server-config'
+
+export interface DiskUsage {
+  totalBytes: number
+  freeBytes: number
+  usedBytes: number
+}
+
+export interface JanitorStats {
+  ttlMinutes: number
+  intervalMinutes: number
+  lastRunAt: string | null
+  durationMs: number
+  removedFiles: number
+  removedBytes: number
+  stagedFiles: number // Left in the staging area after the sweep
+  stagedBytes: number
+  removedJobs: number // Expired job records dropped from memory and disk
+  disk: DiskUsage | null
+  error?: string
+}
+
+const SWEEP_INTERVAL_MS = serverConfig.stagingSweepIntervalMs
+
+// Keep the timer and last stats on the global object so hot reloads don't start a second janitor
+declare global {
+  var stagingJanitor: { timer?: NodeJS.Timeout; running: boolean; stats: JanitorStats } | undefined
+}
+
+global.stagingJanitor = global.stagingJanitor || {
+  running: false,
+  stats: {
+    ttlMinutes: STAGING_TTL_MS / 60000,
+    intervalMinutes: SWEEP_INTERVAL_MS / 60000,
+    lastRunAt: null,
+    durationMs: 0,
+    removedFiles: 0,
+    removedBytes: 0,
+    stagedFiles: 0,
+    stagedBytes: 0,
+    removedJobs: 0,
+    disk: null,
+  },
+}
+
+async function diskUsage(): Promise<DiskUsage | null> {
+  try {
+    const fs = await statfs(STAGING_DIR)
+    const totalBytes = fs.blocks * fs.bsize
+    const freeBytes = fs.bavail * fs.bsize
+    return { totalBytes, freeBytes, usedBytes: totalBytes - freeBytes }
+  } catch {
+    return null
+  }
+}
+
+// Inputs and outputs of jobs that are still queued or running, whatever their age
+function filesInUse(): Set<string> {
+  const inUse = new Set<string>()
+  for (const job of jobService.listJobs()) {
+    if (isJobFinished(job.status)) continue
+    if (job.inputS3Location.bucket === STAGING_BUCKET) inUse.add(job.inputS3Location.key)
+    if (job.outputS3Location?.bucket === STAGING_BUCKET) inUse.add(job.outputS3Location.key)
+  }
+  return inUse
+}
+
+// Removes staged files that haven't been modified within the TTL: unprocessed
+// uploads, abandoned .part files and outputs nobody downloaded. Files in /tmp
+// that the API didn't create are never touched. Expired job records go too.
+export async function sweepStagingArea(now = Date.now()): Promise<JanitorStats> {
+  const janitor = global.stagingJanitor!
+  if (janitor.running) return janitor.stats
+  janitor.running = true
+
+  const started = Date.now()
+  const stats: JanitorStats = {
+    ...janitor.stats,
+    lastRunAt: new Date(started).toISOString(),
+    removedFiles: 0,
+    removedBytes: 0,
+    stagedFiles: 0,
+    stagedBytes: 0,
+    removedJobs: 0,
+  }
+  delete stats.error
+
+  try {
+    stats.removedJobs = await jobService.sweepExpiredJobs(now)
+    const inUse = filesInUse()
+
+    for (const name of await readdir(STAGING_DIR)) {
+      if (!isOwnedStagedFile(name)) continue
+
+      const path = stagingPath(name)
+      const info = await stat(path).catch(() => null)
+      if (!info?.isFile()) continue
+
+      if (now - info.mtimeMs > STAGING_TTL_MS && !inUse.has(name)) {
+        try {
+          await unlink(path)
+          stats.removedFiles++
+          stats.removedBytes += info.size
+          continue
+        } catch (error) {
+          console.error(`Janitor could not remove ${name}:`, error)
+        }
+      }
+
+      stats.stagedFiles++
+      stats.stagedBytes += info.size
+    }
+  } catch (error) {
+    console.error('Staging sweep failed:', error)
+    stats.error = error instanceof Error ? error.message : 'Unknown error'
+  } finally {
+    janitor.running = false
+  }
+
+  stats.disk = await diskUsage()
+  stats.durationMs = Date.now() - started
+  janitor.stats = stats
+
+  if (stats.removedFiles > 0) {
+    console.log(`Janitor removed ${stats.removedFiles} staged files (${stats.removedBytes} bytes)`)
+  }
+  if (stats.removedJobs > 0) {
+    console.log(`Janitor removed ${stats.removedJobs} expired jobs`)
+  }
+  return stats
+}
+
+// Starts the periodic sweep once per process; safe to call more than once
+export function startStagingJanitor(): void {
+  const janitor = global.stagingJanitor!
+  if (janitor.timer) return
+
+  janitor.timer = setInterval(() => {
+    sweepStagingArea().catch((error) => console.error('Staging sweep failed:', error))
+  }, SWEEP_INTERVAL_MS)
+  // Never keep the process alive just for the janitor
+  janitor.timer.unref()
+
+  sweepStagingArea().catch((error) => console.error('Staging sweep failed:', error))
+}
+
+export function getJanitorStats(): JanitorStats {
+  return global.stagingJanitor!.stats
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto'
+import { resolve, sep } from 'path'
+import { serverConfig } from './server-config'
+
+// Every file the API writes or reads in the staging area goes through this module,
+// so client input never decides where on disk a path points.
+
+export const STAGING_DIR = '/tmp'
+
+// Staged files untouched for longer than this are swept by the janitor (lib/staging-janitor.ts)
+export const STAGING_TTL_MS = serverConfig.stagingTtlMs
+
+// Extensions accepted for staged inputs and produced as conversion outputs
+const ALLOWED_EXTENSIONS = {
+  audio: ['mp3', 'wav', 'aac', 'ogg', 'oga', 'opus', 'm4a', 'flac', 'wma', 'webm'],
+  video: ['mp4', 'm4v', 'webm', 'avi', 'mov', 'mkv', 'wmv', 'flv', 'mpeg', 'mpg', '3gp', 'ogv'],
+  image: ['jpg', 'jpeg', 'png', 'webp', 'avif', 'gif', 'tif', 'tiff', 'bmp', 'svg', 'heic', 'heif', 'jxl',
+    'dng', 'cr2', 'cr3', 'nef', 'nrw', 'arw', 'orf', 'rw2', 'raf', 'pef', 'srw'],
+}
+
+export type StagedFileKind = keyof typeof ALLOWED_EXTENSIONS
+
+// Extensions the API produces but never accepts as an upload
+const OUTPUT_ONLY_EXTENSIONS = {
+  archive: ['zip'],
+}
+
+export type OutputFileKind = StagedFileKind | keyof typeof OUTPUT_ONLY_EXTENSIONS
+
+const STAGING_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+// A single path segment: no separators, and it can't start with a dot
+const STAGED_NAME_PATTERN = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9]+)*$/
+// Names this module hands out: inputs, outputs and the .part/.json files of uploads in progress
+const OWNED_NAME_PATTERN = /^(output-)?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(\.[A-Za-z0-9]+)*$/
+
+export class StagingError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'StagingError'
+  }
+}
+
+// Random, so staged files neither collide nor can be guessed by other clients
+export function newStagingId(): string {
+  return randomUUID()
+}
+
+export function isStagingId(value: string): boolean {
+  return STAGING_ID_PATTERN.test(value)
+}
+
+// True for files in the staging directory that the API created. Everything else
+// in /tmp belongs to someone else and is left alone.
+export function isOwnedStagedFile(fileName: string): boolean {
+  return OWNED_NAME_PATTERN.test(fileName)
+}
+
+export function isFileKind(value: string | undefined): value is StagedFileKind {
+  return !!value && value in ALLOWED_EXTENSIONS
+}
+
+// Takes a file name or a bare extension and returns the lower-cased extension,
+// provided it is on the allow list for the given kind (or any upload kind)
+export function normalizeExtension(nameOrExtension: string, kind?: OutputFileKind): string {
+  const extension = nameOrExtension.split('.').pop()!.toLowerCase()
+  const allowed: string[] = kind
+    ? { ...ALLOWED_EXTENSIONS, ...OUTPUT_ONLY_EXTENSIONS }[kind]
+    : Object.values(ALLOWED_EXTENSIONS).flat()
+
+  if (!allowed.includes(extension)) {
+    throw new StagingError(`Unsupported file extension: .${extension}`)
+  }
+  return extension
+}
+
+// Kind of file a declared name stands for, judged by its extension. An extension
+// on more than one list (webm) counts as the kind with the larger upload limit.
+export function uploadKindOf(fileName: string): StagedFileKind {
+  const extension = normalizeExtension(fileName)
+  const kinds = (Object.keys(ALLOWED_EXTENSIONS) as StagedFileKind[])
+    .filter((kind) => ALLOWED_EXTENSIONS[kind].includes(extension))
+  const { uploadLimits } = serverConfig
+  return kinds.reduce((largest, kind) => uploadLimits[kind] > uploadLimits[largest] ? kind : largest)
+}
+
+// Name for a new staged input, e.g. '3f2b...e1.mp4'
+export function stagedFileName(originalName: string, kind?: StagedFileKind, id = newStagingId()): string {
+  return `${id}.${normalizeExtension(originalName, kind)}`
+}
+
+// Resolves a staged file name to its path, refusing anything that would land
+// outside the staging directory or that this module didn't name
+export function stagingPath(fileName: string): string {
+  if (typeof fileName !== 'string' || !STAGED_NAME_PATTERN.test(fileName) || !isOwnedStagedFile(fileName)) {
+    throw new StagingError('Invalid file name')
+  }
+
+  const path = resolve(STAGING_DIR, fileName)
+  if (!path.startsWith(resolve(STAGING_DIR) + sep)) {
+    throw new StagingError('Invalid file name')
+  }
+  return path
+}
+
+// Resolves an upload named by a client, accepting only the form stagedFileName
+// issues: a staging ID and an extension on the list for the given kind
+export function stagedInputPath(fileName: string, kind: StagedFileKind): string {
+  const [id, extension, ...rest] = typeof fileName === 'string' ? fileName.split('.') : []
+  if (!isStagingId(id ?? '') || !extension || rest.length > 0 || !ALLOWED_EXTENSIONS[kind].includes(extension)) {
+    throw new StagingError('Invalid file name')
+  }
+  return stagingPath(fileName)
+}
+
+// Fresh path for a conversion output in the requested format
+export function stagingOutputPath(format: string, kind: OutputFileKind): string {
+  if (typeof format !== 'string' || !/^[a-z0-9]+$/i.test(format)) {
+    throw new StagingError('Unsupported format')
+  }
+  return stagingPath(`output-${newStagingId()}.${normalizeExtension(format, kind)}`)
+}
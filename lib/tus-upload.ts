@@ -0,0 +1,194 @@
+import { createWriteStream } from 'fs'
+import { readFile, writeFile, rename, stat, unlink } from 'fs/promises'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { newStagingId, isStagingId, stagingPath, stagedFileName, uploadKindOf, STAGING_TTL_MS } from './staging-store'
+import { serverConfig, fileTooLargeMessage, MAX_UPLOAD_SIZE } from './server-config'
+
+export const TUS_VERSION = '1.0.0'
+export const TUS_EXTENSIONS = 'creation,termination,expiration'
+// The largest upload limit; each upload is then held to the one for its kind (see createUpload)
+export const TUS_MAX_SIZE = MAX_UPLOAD_SIZE
+
+export interface TusUpload {
+  uploadId: string
+  length: number
+  offset: number
+  metadata: Record<string, string>
+  fileName: string // Name in the staging area once complete, as accepted by the process routes
+  completed: boolean
+  expiresAt: Date
+}
+
+export class TusError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'TusError'
+  }
+}
+
+declare global {
+  var tusUploads: Map<string, TusUpload> | undefined
+  var tusActivePatches: Set<string> | undefined
+}
+
+global.tusUploads = global.tusUploads || new Map<string, TusUpload>()
+global.tusActivePatches = global.tusActivePatches || new Set<string>()
+
+function partFilePath(uploadId: string): string {
+  return stagingPath(`${uploadId}.part`)
+}
+
+function infoFilePath(uploadId: string): string {
+  return stagingPath(`${uploadId}.tus.json`)
+}
+
+// Upload-Metadata is a comma separated list of "key base64value" pairs
+export function parseMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {}
+  if (!header) return metadata
+
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ')
+    if (!key) continue
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : ''
+  }
+  return metadata
+}
+
+export function formatMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => value ? `${key} ${Buffer.from(value, 'utf8').toString('base64')}` : key)
+    .join(',')
+}
+
+async function saveUpload(upload: TusUpload): Promise<void> {
+  global.tusUploads!.set(upload.uploadId, upload)
+  await writeFile(infoFilePath(upload.uploadId), JSON.stringify(upload))
+}
+
+export async function createUpload(length: number, metadata: Record<string, string>): Promise<TusUpload> {
+  // Keep the original extension so FFmpeg can recognise the file; without a name it has none
+  const originalName = metadata.filename || metadata.name
+  // The declared name settles the kind of file, and with it the upload limit
+  const kind = originalName ? uploadKindOf(originalName) : undefined
+  const maxSize = kind ? serverConfig.uploadLimits[kind] : TUS_MAX_SIZE
+  if (length > maxSize) throw new TusError(fileTooLargeMessage(maxSize, kind), 413)
+
+  const uploadId = newStagingId()
+  const fileName = originalName ? stagedFileName(originalName, kind, uploadId) : uploadId
+
+  const upload: TusUpload = {
+    uploadId,
+    length,
+    offset: 0,
+    metadata,
+    fileName,
+    completed: false,
+    expiresAt: new Date(Date.now() + STAGING_TTL_MS),
+  }
+
+  await writeFile(partFilePath(uploadId), Buffer.alloc(0))
+  await saveUpload(upload)
+
+  // Zero-length uploads are complete as soon as they exist
+  if (length === 0) await completeUpload(upload)
+  return upload
+}
+
+export async function getUpload(uploadId: string): Promise<TusUpload | null> {
+  if (!isStagingId(uploadId)) return null
+
+  let upload = global.tusUploads!.get(uploadId)
+  if (!upload) {
+    try {
+      const raw = JSON.parse(await readFile(infoFilePath(uploadId), 'utf8'))
+      upload = { ...raw, expiresAt: new Date(raw.expiresAt) } as TusUpload
+      global.tusUploads!.set(uploadId, upload)
+    } catch {
+      return null
+    }
+  }
+
+  if (!upload.completed && upload.expiresAt.getTime() <= Date.now()) {
+    await terminateUpload(uploadId)
+    throw new TusError('Upload expired', 410)
+  }
+
+  return upload
+}
+
+// Stops the body at the declared upload length instead of trusting the client
+function limitBytes(maxBytes: number): Transform {
+  let seen = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      seen += chunk.length
+      if (seen > maxBytes) {
+        callback(new TusError('Request body exceeds Upload-Length', 413))
+        return
+      }
+      callback(null, chunk)
+    },
+  })
+}
+
+// Streams a PATCH body onto the end of the part file. Returns the upload with
+// its new offset; bytes received before a dropped connection are kept.
+export async function appendToUpload(
+  upload: TusUpload,
+  offset: number,
+  body: ReadableStream<Uint8Array> | null
+): Promise<TusUpload> {
+  if (upload.completed) throw new TusError('Upload already completed', 403)
+  if (offset !== upload.offset) throw new TusError('Upload-Offset does not match the current offset', 409)
+
+  const active = global.tusActivePatches!
+  if (active.has(upload.uploadId)) throw new TusError('Upload is already being written to', 409)
+  active.add(upload.uploadId)
+
+  try {
+    if (body) {
+      await pipeline(
+        Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+        limitBytes(upload.length - upload.offset),
+        createWriteStream(partFilePath(upload.uploadId), { flags: 'a' })
+      ).catch(async (error) => {
+        await syncOffset(upload)
+        throw error
+      })
+    }
+
+    await syncOffset(upload)
+    if (upload.offset === upload.length) await completeUpload(upload)
+    return upload
+  } finally {
+    active.delete(upload.uploadId)
+  }
+}
+
+// The part file is the source of truth for how much has been received. Each
+// write pushes the expiry back, in step with the janitor's TTL.
+async function syncOffset(upload: TusUpload): Promise<void> {
+  const { size } = await stat(partFilePath(upload.uploadId))
+  upload.offset = size
+  upload.expiresAt = new Date(Date.now() + STAGING_TTL_MS)
+  await saveUpload(upload)
+}
+
+async function completeUpload(upload: TusUpload): Promise<void> {
+  await rename(partFilePath(upload.uploadId), stagingPath(upload.fileName))
+  upload.completed = true
+  await saveUpload(upload)
+}
+
+export async function terminateUpload(uploadId: string): Promise<void> {
+  const upload = global.tusUploads!.get(uploadId)
+  global.tusUploads!.delete(uploadId)
+  await unlink(partFilePath(uploadId)).catch(() => {})
+  await unlink(infoFilePath(uploadId)).catch(() => {})
+  if (upload?.completed) {
+    await unlink(stagingPath(upload.fileName)).catch(() => {})
+  }
+}
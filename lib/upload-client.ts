@@ -0,0 +1,120 @@
+// Browser-side resumable upload through /api/upload-chunk
+
+const CHUNK_SIZE = 1024 * 1024 // 1MB chunks
+const MAX_CHUNK_ATTEMPTS = 5
+
+export interface ChunkedUploadOptions {
+  fileId?: string // ID issued for an earlier attempt, to resume it
+  onFileId?: (fileId: string) => void // Called once the server has issued an ID
+  onProgress?: (percent: number) => void
+  signal?: AbortSignal
+}
+
+async function sha256Hex(data: Blob): Promise<string | undefined> {
+  // crypto.subtle only exists in secure contexts; the server treats the checksum as optional
+  if (typeof crypto === 'undefined' || !crypto.subtle) return undefined
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Upload aborted', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+// Chunk indexes the server already holds for this upload, or null if it no longer knows it
+async function fetchReceivedChunks(fileId: string, signal?: AbortSignal): Promise<Set<number> | null> {
+  try {
+    const response = await fetch(`/api/upload-chunk?fileId=${encodeURIComponent(fileId)}`, { signal })
+    if (response.status === 404) return null
+    if (!response.ok) return new Set()
+    const data = await response.json()
+    return new Set<number>(data.receivedChunks)
+  } catch (err) {
+    if (signal?.aborted) throw err
+    return new Set()
+  }
+}
+
+async function sendChunk(formData: FormData, index: number, signal?: AbortSignal): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch('/api/upload-chunk', { method: 'POST', body: formData, signal })
+      // Only client errors other than a checksum mismatch (422) are worth giving up on
+      if (response.ok || (response.status < 500 && response.status !== 422)) return response
+      if (attempt >= MAX_CHUNK_ATTEMPTS) return response
+    } catch (err) {
+      if (signal?.aborted || attempt >= MAX_CHUNK_ATTEMPTS) throw err
+    }
+
+    console.warn(`Chunk ${index} failed (attempt ${attempt}), retrying`)
+    await wait(Math.min(1000 * 2 ** (attempt - 1), 10000), signal)
+  }
+}
+
+// Uploads a file in chunks, skipping any the server already has and retrying
+// failed ones with backoff. Resolves with the staged file name.
+export async function uploadFileInChunks(file: File, options: ChunkedUploadOptions): Promise<string> {
+  const { onFileId, onProgress, signal } = options
+  const totalChunks = Math.max(1, Math.ceil(file.size / CHUNK_SIZE))
+  let fileId = options.fileId
+  let fileName = ''
+
+  let received = new Set<number>()
+  if (fileId) {
+    const known = await fetchReceivedChunks(fileId, signal)
+    // An expired upload starts again from scratch under a new ID
+    if (known) received = known
+    else fileId = undefined
+  }
+  let done = received.size
+  onProgress?.(Math.round((done / totalChunks) * 100))
+
+  for (let i = 0; i < totalChunks; i++) {
+    if (received.has(i)) continue
+
+    const start = i * CHUNK_SIZE
+    const chunk = file.slice(start, Math.min(start + CHUNK_SIZE, file.size))
+
+    const formData = new FormData()
+    formData.append('chunk', chunk)
+    formData.append('chunkIndex', i.toString())
+    formData.append('totalChunks', totalChunks.toString())
+    formData.append('offset', start.toString())
+    formData.append('totalSize', file.size.toString())
+    if (fileId) formData.append('fileId', fileId)
+    formData.append('fileName', file.name)
+    const checksum = await sha256Hex(chunk)
+    if (checksum) formData.append('checksum', checksum)
+
+    const response = await sendChunk(formData, i, signal)
+    const data = await response.json().catch(() => ({ error: 'Upload failed' }))
+    if (!response.ok) {
+      throw new Error(`Chunk ${i} upload failed: ${data.error}`)
+    }
+
+    if (!fileId) {
+      fileId = data.fileId as string
+      onFileId?.(fileId)
+    }
+    if (data.completed) fileName = data.fileName
+
+    done++
+    onProgress?.(Math.round((done / totalChunks) * 100))
+  }
+
+  // Every chunk was already on the server, so ask it for the staged name
+  if (!fileName && fileId) {
+    const response = await fetch(`/api/upload-chunk?fileId=${encodeURIComponent(fileId)}`, { signal })
+    const data = await response.json()
+    if (!response.ok || !data.completed) throw new Error('Upload could not be completed')
+    fileName = data.fileName
+  }
+
+  return fileName
+}
@@ -0,0 +1,79 @@
+import type { WatermarkPosition } from './watermark-layout'
+
+// Browser-side watermark settings: sending them to /api/optimize and keeping
+// named definitions in localStorage so they survive between sessions
+
+export interface WatermarkSettings {
+  kind: 'text' | 'logo'
+  text: string
+  logoDataUrl?: string // The logo itself, so saved definitions carry it along
+  color: string
+  position: WatermarkPosition
+  opacity: number // 0-1
+  scale: number // Fraction of the image width
+  tile: boolean
+}
+
+export interface SavedWatermark extends WatermarkSettings {
+  name: string
+}
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  kind: 'text',
+  text: '© ',
+  color: '#ffffff',
+  position: 'bottom-right',
+  opacity: 0.5,
+  scale: 0.25,
+  tile: false
+}
+
+// localStorage holds about 5MB per site, and logos are stored inline
+export const MAX_LOGO_BYTES = 1024 * 1024
+
+const STORAGE_KEY = 'tinypixo.watermarks'
+
+// Whether the settings describe something to draw
+export function hasWatermark(settings: WatermarkSettings | null): settings is WatermarkSettings {
+  if (!settings) return false
+  return settings.kind === 'logo' ? !!settings.logoDataUrl : settings.text.trim() !== ''
+}
+
+export async function appendWatermark(formData: FormData, settings: WatermarkSettings | null): Promise<void> {
+  if (!hasWatermark(settings)) return
+
+  if (settings.kind === 'logo') {
+    const logo = await (await fetch(settings.logoDataUrl!)).blob()
+    formData.append('watermarkLogo', logo, 'logo')
+  } else {
+    formData.append('watermarkText', settings.text)
+    formData.append('watermarkColor', settings.color)
+  }
+  formData.append('watermarkPosition', settings.position)
+  formData.append('watermarkOpacity', settings.opacity.toString())
+  formData.append('watermarkScale', settings.scale.toString())
+  if (settings.tile) formData.append('watermarkTile', 'true')
+}
+
+export function loadSavedWatermarks(): SavedWatermark[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+// Saves (or replaces, by name) a definition and returns the updated list.
+// Throws if storage is full, e.g. because of a large logo.
+export function saveWatermark(watermark: SavedWatermark): SavedWatermark[] {
+  const saved = [...loadSavedWatermarks().filter((w) => w.name !== watermark.name), watermark]
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved))
+  return saved
+}
+
+export function deleteSavedWatermark(name: string): SavedWatermark[] {
+  const saved = loadSavedWatermarks().filter((w) => w.name !== name)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved))
+  return saved
+}
@@ -0,0 +1,58 @@
+// Where and how big a watermark is drawn. Shared by the server, which
+// composites it, and the browser, which previews it, so both agree.
+
+export const WATERMARK_POSITIONS = [
+  'top-left', 'top', 'top-right',
+  'left', 'centre', 'right',
+  'bottom-left', 'bottom', 'bottom-right'
+] as const
+
+export type WatermarkPosition = typeof WATERMARK_POSITIONS[number]
+
+export function isWatermarkPosition(value: unknown): value is WatermarkPosition {
+  return typeof value === 'string' && (WATERMARK_POSITIONS as readonly string[]).includes(value)
+}
+
+// Distance from the image edge: 3% of the shorter side
+export function watermarkMargin(imageWidth: number, imageHeight: number): number {
+  return Math.round(Math.min(imageWidth, imageHeight) * 0.03)
+}
+
+// Top-left corner of a single (untiled) watermark
+export function placeWatermark(
+  imageWidth: number,
+  imageHeight: number,
+  markWidth: number,
+  markHeight: number,
+  position: WatermarkPosition
+): { left: number; top: number } {
+  const margin = watermarkMargin(imageWidth, imageHeight)
+  const left = position.endsWith('left') ? margin
+    : position.endsWith('right') ? imageWidth - markWidth - margin
+    : (imageWidth - markWidth) / 2
+  const top = position.startsWith('top') ? margin
+    : position.startsWith('bottom') ? imageHeight - markHeight - margin
+    : (imageHeight - markHeight) / 2
+
+  return { left: Math.max(0, Math.round(left)), top: Math.max(0, Math.round(top)) }
+}
+
+// Empty space to the right of and below each tile of a tiled watermark
+export function tileGap(markWidth: number, markHeight: number): { x: number; y: number } {
+  return { x: Math.round(markWidth * 0.5), y: Math.round(markHeight * 1.5) }
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c]!)
+
+// SVG of a text watermark stretched to exactly `width` pixels
+export function textWatermarkSvg(text: string, width: number, color: string): string {
+  // Bold sans-serif glyphs average about 0.6em wide
+  const fontSize = Math.max(8, Math.round(width / Math.max(text.length * 0.6, 1)))
+  const height = Math.ceil(fontSize * 1.3)
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<text x="${width / 2}" y="${fontSize}" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" ` +
+    `font-weight="bold" fill="${escapeXml(color)}" text-anchor="middle" ` +
+    `textLength="${Math.round(width * 0.98)}" lengthAdjust="spacingAndGlyphs">${escapeXml(text)}</text></svg>`
+}
@@ -0,0 +1,60 @@
+import sharp from 'sharp'
+import { placeWatermark, textWatermarkSvg, tileGap, WatermarkPosition } from './watermark-layout'
+
+export interface WatermarkSpec {
+  text?: string
+  logo?: Buffer // Used instead of text when given
+  color: string // Text colour
+  position: WatermarkPosition // Ignored when tiled
+  opacity: number // 0-1
+  scale: number // Watermark width as a fraction of the image width
+  tile: boolean
+}
+
+// Renders the mark at the requested width, never taller than the image, and
+// fades it to the requested opacity
+async function renderMark(spec: WatermarkSpec, imageWidth: number, imageHeight: number): Promise<Buffer> {
+  const width = Math.max(1, Math.round(imageWidth * spec.scale))
+  const source = spec.logo ?? Buffer.from(textWatermarkSvg(spec.text ?? '', width, spec.color))
+
+  return sharp(source)
+    .resize(width, imageHeight, { fit: 'inside' })
+    .ensureAlpha()
+    .linear([1, 1, 1, spec.opacity], [0, 0, 0, 0])
+    .png()
+    .toBuffer()
+}
+
+// Composites the watermark onto the pipeline's output, after any edits and
+// resizing. The mark is sized from the rendered pixels, and the result is
+// re-wrapped so a later downscale (targetSize) shrinks it with the image.
+export async function applyWatermark(sharpInstance: sharp.Sharp, spec: WatermarkSpec): Promise<sharp.Sharp> {
+  const { data, info } = await sharpInstance.raw().toBuffer({ resolveWithObject: true })
+  const mark = await renderMark(spec, info.width, info.height)
+  const { width: markWidth = 1, height: markHeight = 1 } = await sharp(mark).metadata()
+
+  let overlay: sharp.OverlayOptions
+  if (spec.tile) {
+    // sharp refuses overlays larger than the image, so the gap gives way first
+    const gap = tileGap(markWidth, markHeight)
+    const tile = await sharp(mark)
+      .extend({
+        right: Math.min(gap.x, info.width - markWidth),
+        bottom: Math.min(gap.y, info.height - markHeight),
+        background: { r: 0, g: 0, b: 0, alpha: 0 }
+      })
+      .png()
+      .toBuffer()
+    overlay = { input: tile, tile: true, gravity: 'northwest' }
+  } else {
+    overlay = { input: mark, ...placeWatermark(info.width, info.height, markWidth, markHeight, spec.position) }
+  }
+
+  const marked = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .composite([overlay])
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  return sharp(marked.data, {
+    raw: { width: marked.info.width, height: marked.info.height, channels: marked.info.channels }
+  })
+}
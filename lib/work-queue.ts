@@ -0,0 +1,118 @@
+import { jobService, JobStatus, JobCancelledError } from './job-service'
+import { serverConfig } from './server-config'
+
+interface QueuedTask {
+  start: () => void
+  jobId?: string
+  stopWatchingCancel?: () => void
+}
+
+export interface QueueStats {
+  active: number
+  waiting: number
+  maxConcurrent: number
+  maxQueued: number
+}
+
+// Runs at most `maxConcurrent` tasks at a time and keeps the rest in FIFO order.
+// Callers check isFull() before accepting new work so they can answer 503.
+export class WorkQueue {
+  private active = 0
+  private waiting: QueuedTask[] = []
+
+  constructor(
+    readonly name: string,
+    readonly maxConcurrent: number,
+    readonly maxQueued: number,
+    readonly retryAfter: number // Seconds a rejected client should wait before retrying
+  ) {}
+
+  isFull(): boolean {
+    return this.active >= this.maxConcurrent && this.waiting.length >= this.maxQueued
+  }
+
+  get stats(): QueueStats {
+    return {
+      active: this.active,
+      waiting: this.waiting.length,
+      maxConcurrent: this.maxConcurrent,
+      maxQueued: this.maxQueued,
+    }
+  }
+
+  run<T>(task: () => Promise<T>, jobId?: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const start = () => {
+        this.active++
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--
+            this.next()
+          })
+      }
+
+      if (this.active < this.maxConcurrent) {
+        start()
+        return
+      }
+
+      const queued: QueuedTask = { start, jobId }
+      this.waiting.push(queued)
+
+      if (jobId) {
+        jobService.updateJob(jobId, { status: JobStatus.QUEUED })
+
+        // A job cancelled while waiting gives up its place without ever starting
+        queued.stopWatchingCancel = jobService.onCancel(jobId, () => {
+          this.waiting = this.waiting.filter((task) => task !== queued)
+          this.reportPositions()
+          reject(new JobCancelledError(jobId))
+        })
+      }
+      this.reportPositions()
+    })
+  }
+
+  private next(): void {
+    const task = this.waiting.shift()
+    if (!task) return
+
+    task.stopWatchingCancel?.()
+    if (task.jobId) {
+      jobService.updateJob(task.jobId, { status: JobStatus.PROCESSING, stage: 'processing' })
+    }
+    task.start()
+    this.reportPositions()
+  }
+
+  // Shows up in the progress status as e.g. 'queued (3 ahead)'
+  private reportPositions(): void {
+    this.waiting.forEach((task, index) => {
+      if (task.jobId) jobService.updateStage(task.jobId, `queued (${index} ahead)`)
+    })
+  }
+}
+
+// Keep the queues on the global object so hot reloads don't reset the counters
+declare global {
+  var workQueues: { sharp: WorkQueue; ffmpeg: WorkQueue } | undefined
+}
+
+global.workQueues = global.workQueues || {
+  sharp: new WorkQueue(
+    'sharp',
+    serverConfig.queues.sharp.maxConcurrent,
+    serverConfig.queues.sharp.maxQueued,
+    5
+  ),
+  ffmpeg: new WorkQueue(
+    'ffmpeg',
+    serverConfig.queues.ffmpeg.maxConcurrent,
+    serverConfig.queues.ffmpeg.maxQueued,
+    30
+  ),
+}
+
+export const sharpQueue = global.workQueues.sharp
+export const ffmpegQueue = global.workQueues.ffmpeg
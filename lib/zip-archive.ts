@@ -0,0 +1,77 @@
+import { crc32 } from 'zlib'
+
+// Minimal zip writer for bundling generated files. Entries are stored without
+// compression: they are already-compressed images, so deflate would only cost time.
+
+export interface ZipEntry {
+  name: string // Path inside the archive, forward slashes
+  data: Buffer
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const VERSION = 20 // 2.0: stored entries and folders
+const UTF8_NAMES = 0x0800
+
+// Timestamps in MS-DOS format, which zip uses for every entry
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Buffer {
+  const { time, date } = dosDateTime(modified)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const checksum = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_HEADER, 0)
+    local.writeUInt16LE(VERSION, 4)
+    local.writeUInt16LE(UTF8_NAMES, 6)
+    local.writeUInt16LE(0, 8) // Stored
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(entry.data.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_HEADER, 0)
+    central.writeUInt16LE(VERSION, 4)
+    central.writeUInt16LE(VERSION, 6)
+    central.writeUInt16LE(UTF8_NAMES, 8)
+    central.writeUInt16LE(0, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(entry.data.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    // Extra field, comment, disk number and attributes all stay zero
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, entry.data)
+    centralParts.push(central, name)
+    offset += local.length + name.length + entry.data.length
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralSize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, ...centralParts, end])
+}
@@ -1,12 +1,14 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest'
-import { GET } from '../app/api/jobs/[jobId]/route'
+import { describe, it, expect, vi } from 'vitest'
+import { GET, DELETE } from '../app/api/jobs/[jobId]/route'
 import { jobService } from '../lib/job-service'
 import { JobStatus } from '../lib/job-service'
 
 // Mock the job service
-vi.mock('../lib/job-service', () => ({
+vi.mock('../lib/job-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/job-service')>()),
   jobService: {
-    getJob: vi.fn()
+    getJob: vi.fn(),
+    cancelJob: vi.fn()
   }
 }))
 
@@ -35,7 +37,12 @@ describe('Jobs API', () => {
       const data = await response.json()
 
       expect(response.status).toBe(200)
-      expect(data).toEqual(mockJob)
+      // Dates come back as ISO strings once the job is serialized to JSON
+      expect(data).toEqual({
+        ...mockJob,
+        createdAt: mockJob.createdAt.toISOString(),
+        updatedAt: mockJob.updatedAt.toISOString()
+      })
       expect(jobService.getJob).toHaveBeenCalledWith('123')
     })
 
@@ -73,4 +80,54 @@ describe('Jobs API', () => {
       })
     })
   })
-})
\ No newline at end of file
+
+  describe('DELETE /api/jobs/[jobId]', () => {
+    const baseJob = {
+      jobId: '123',
+      inputS3Location: {
+        bucket: '/tmp',
+        key: 'input.mp4',
+        size: 1024000
+      },
+      format: 'webm',
+      quality: 'medium',
+      createdAt: new Date('2022-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2022-01-01T00:05:00.000Z'),
+      ttl: 1641081600
+    }
+
+    it('should cancel a running job', async () => {
+      vi.mocked(jobService.cancelJob).mockResolvedValueOnce({ ...baseJob, status: JobStatus.CANCELLED })
+
+      const request = new Request('http://localhost:3000/api/jobs/123', { method: 'DELETE' })
+      const response = await DELETE(request, { params: { jobId: '123' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.status).toBe('cancelled')
+      expect(jobService.cancelJob).toHaveBeenCalledWith('123')
+    })
+
+    it('should return 404 when job does not exist', async () => {
+      vi.mocked(jobService.cancelJob).mockResolvedValueOnce(null)
+
+      const request = new Request('http://localhost:3000/api/jobs/nonexistent', { method: 'DELETE' })
+      const response = await DELETE(request, { params: { jobId: 'nonexistent' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data).toEqual({ error: 'Job not found' })
+    })
+
+    it('should return 409 when job already finished', async () => {
+      vi.mocked(jobService.cancelJob).mockResolvedValueOnce({ ...baseJob, status: JobStatus.COMPLETED })
+
+      const request = new Request('http://localhost:3000/api/jobs/123', { method: 'DELETE' })
+      const response = await DELETE(request, { params: { jobId: '123' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data).toEqual({ error: 'Job already finished', status: 'completed' })
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { randomUUID } from 'crypto'
+import { access, rm } from 'fs/promises'
+
+let fileIds: string[] = []
+
+async function loadChunkUpload(env: Record<string, string> = {}) {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+  vi.resetModules()
+  global.uploadSessions = undefined
+  return import('../lib/chunk-upload')
+}
+
+function newUpload() {
+  const fileId = randomUUID()
+  fileIds.push(fileId)
+  return { fileId, fileName: `${fileId}.png`, kind: 'image' as const, totalChunks: 2 }
+}
+
+describe('Chunk upload', () => {
+  afterEach(async () => {
+    const { discardUpload } = await import('../lib/chunk-upload')
+    for (const fileId of fileIds) {
+      await discardUpload(fileId)
+      await rm(`/tmp/${fileId}.png`, { force: true })
+    }
+    fileIds = []
+    vi.unstubAllEnvs()
+  })
+
+  describe('writeChunk', () => {
+    it('should discard an upload that assembles to the wrong size', async () => {
+      const { writeChunk, getUploadSession } = await loadChunkUpload()
+      const upload = { ...newUpload(), totalSize: 10 }
+
+      await writeChunk({ ...upload, chunkIndex: 0, offset: 0, data: Buffer.alloc(4) })
+      const last = writeChunk({ ...upload, chunkIndex: 1, offset: 4, data: Buffer.alloc(4) })
+
+      await expect(last).rejects.toMatchObject({ status: 422 })
+      expect(await getUploadSession(upload.fileId)).toBeNull()
+      await expect(access(`/tmp/${upload.fileId}.part`)).rejects.toThrow()
+
+      // The same upload can be sent again from the start
+      await writeChunk({ ...upload, chunkIndex: 0, offset: 0, data: Buffer.alloc(5) })
+      const session = await writeChunk({ ...upload, chunkIndex: 1, offset: 5, data: Buffer.alloc(5) })
+      expect(session.completed).toBe(true)
+    })
+
+    it('should discard an assembled file larger than the limit for its kind', async () => {
+      const { writeChunk, getUploadSession, ChunkUploadError } = await loadChunkUpload({ MAX_IMAGE_UPLOAD_MB: '0.00001' })
+      const upload = newUpload()
+
+      await writeChunk({ ...upload, chunkIndex: 0, offset: 0, data: Buffer.alloc(4) })
+      const last = writeChunk({ ...upload, chunkIndex: 1, offset: 20, data: Buffer.alloc(4) })
+
+      await expect(last).rejects.toThrow(ChunkUploadError)
+      await expect(last).rejects.toMatchObject({ status: 413 })
+      expect(await getUploadSession(upload.fileId)).toBeNull()
+      await expect(access(`/tmp/${upload.fileId}.part`)).rejects.toThrow()
+    })
+  })
+})
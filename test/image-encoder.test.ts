@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest'
+import sharp from 'sharp'
+
+// The native sharp binary isn't needed to check which formats take part: every
+// pipeline reports the current probe and encodes to a few bytes
+const { sharpFake } = vi.hoisted(() => ({
+  sharpFake: { metadata: {} as Record<string, unknown> }
+}))
+
+vi.mock('sharp', () => {
+  const pipeline = (): unknown => new Proxy({}, {
+    get: (target, name) => {
+      if (name === 'then') return undefined
+      if (name === 'metadata') return async () => sharpFake.metadata
+      if (name === 'toBuffer') return async () => Buffer.from('encoded')
+      return () => pipeline()
+    }
+  })
+  return { default: pipeline }
+})
+
+// Every candidate looks identical to the source
+vi.mock('../lib/image-quality', () => ({
+  prepareReference: async () => ({}),
+  scoreAgainst: async () => 1
+}))
+
+import { raceFormats } from '../lib/image-encoder'
+
+describe('Image encoder', () => {
+  describe('raceFormats', () => {
+    it('should leave JPEG out for a transparent PNG', async () => {
+      sharpFake.metadata = { format: 'png', width: 10, height: 10, channels: 4, hasAlpha: true }
+
+      const race = await raceFormats(sharp(Buffer.from('png')), { quality: 80 })
+
+      expect(race.candidates.map((candidate) => candidate.format)).toEqual(['webp', 'avif', 'png'])
+    })
+
+    it('should race JPEG for an opaque source', async () => {
+      sharpFake.metadata = { format: 'png', width: 10, height: 10, channels: 3, hasAlpha: false }
+
+      const race = await raceFormats(sharp(Buffer.from('png')), { quality: 80 })
+
+      expect(race.candidates.map((candidate) => candidate.format)).toContain('jpeg')
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { detectCodecInput, needsServerDecode } from '../lib/image-signature'
+
+// An ISO-BMFF 'ftyp' box with a major brand and compatible brands
+function ftyp(major: string, compatible: string[] = []): Buffer {
+  const box = Buffer.alloc(16 + compatible.length * 4 + 8)
+  box.writeUInt32BE(16 + compatible.length * 4, 0)
+  box.write('ftyp', 4, 'latin1')
+  box.write(major, 8, 'latin1')
+  compatible.forEach((brand, i) => box.write(brand, 16 + i * 4, 'latin1'))
+  return box
+}
+
+describe('detectCodecInput', () => {
+  it('recognises HEIC and HEIF containers', () => {
+    expect(detectCodecInput(ftyp('heic', ['mif1', 'heic']))).toBe('heif')
+    expect(detectCodecInput(ftyp('mif1', ['heic']))).toBe('heif')
+  })
+
+  it('leaves AVIF to sharp even though it shares the container', () => {
+    expect(detectCodecInput(ftyp('avif', ['mif1', 'miaf']))).toBeNull()
+    expect(detectCodecInput(ftyp('mif1', ['avif']))).toBeNull()
+  })
+
+  it('recognises both JPEG XL signatures', () => {
+    expect(detectCodecInput(Buffer.from([0xff, 0x0a, 0x00, 0x00]))).toBe('jxl')
+    expect(detectCodecInput(Buffer.from([0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a, 0x00]))).toBe('jxl')
+  })
+
+  it('recognises camera RAW by signature or extension', () => {
+    expect(detectCodecInput(ftyp('crx ', ['isom']))).toBe('raw')
+    expect(detectCodecInput(Buffer.from('FUJIFILMCCD-RAW 0201', 'latin1'))).toBe('raw')
+    // DNG and most other RAWs are TIFF files; only the name sets them apart
+    const tiff = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00])
+    expect(detectCodecInput(tiff, 'IMG_0001.DNG')).toBe('raw')
+    expect(detectCodecInput(tiff, 'scan.tiff')).toBeNull()
+  })
+
+  it('returns null for formats sharp reads itself', () => {
+    expect(detectCodecInput(Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'photo.jpg')).toBeNull()
+    expect(detectCodecInput(Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'), 'image.png')).toBeNull()
+  })
+})
+
+describe('needsServerDecode', () => {
+  it('matches extensions case-insensitively', () => {
+    expect(needsServerDecode('IMG_1234.HEIC')).toBe(true)
+    expect(needsServerDecode('shot.nef')).toBe(true)
+    expect(needsServerDecode('photo.jpg')).toBe(false)
+    expect(needsServerDecode('no-extension')).toBe(false)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let storeDir: string
+
+async function loadJobService() {
+  vi.stubEnv('JOB_STORE_DIR', storeDir)
+  vi.resetModules()
+  global.jobStore = undefined
+  return import('../lib/job-service')
+}
+
+describe('Job service', () => {
+  beforeEach(async () => {
+    storeDir = await mkdtemp(join(tmpdir(), 'tinypixo-jobs-test-'))
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await rm(storeDir, { recursive: true, force: true })
+  })
+
+  describe('createJob', () => {
+    it('should refuse a client-chosen ID that is already in use', async () => {
+      const { jobService, JobExistsError, INLINE_BUCKET } = await loadJobService()
+      const input = {
+        jobId: 'job_1',
+        inputS3Location: { bucket: INLINE_BUCKET, key: 'photo.jpg', size: 1 },
+        format: 'webp',
+        quality: '80'
+      }
+
+      await jobService.createJob(input)
+      await expect(jobService.createJob(input)).rejects.toThrow(JobExistsError)
+    })
+  })
+
+  describe('sweepExpiredJobs', () => {
+    it('should drop expired jobs from memory and disk', async () => {
+      const { jobService, INLINE_BUCKET } = await loadJobService()
+      const job = await jobService.createJob({
+        inputS3Location: { bucket: INLINE_BUCKET, key: 'photo.jpg', size: 1 },
+        format: 'webp',
+        quality: '80'
+      })
+
+      expect(await jobService.sweepExpiredJobs()).toBe(0)
+      expect(await readdir(storeDir)).toHaveLength(1)
+
+      expect(await jobService.sweepExpiredJobs(Date.now() + DAY_MS + 1000)).toBe(1)
+      expect(jobService.listJobs()).toHaveLength(0)
+      expect(await readdir(storeDir)).toHaveLength(0)
+      expect(await jobService.getJob(job.jobId)).toBeNull()
+    })
+
+    it('should leave recent records it cannot read', async () => {
+      const { jobService } = await loadJobService()
+      await writeFile(join(storeDir, 'broken.json'), '{"jobId":')
+
+      expect(await jobService.sweepExpiredJobs()).toBe(0)
+      expect(await jobService.sweepExpiredJobs(Date.now() + DAY_MS + 1000)).toBe(1)
+      expect(await readdir(storeDir)).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { readExif, readIccDescription } from '../lib/metadata-parser'
+
+type Field = { tag: number; type: number; count: number; value: Buffer }
+
+const ascii = (tag: number, text: string): Field => {
+  const value = Buffer.from(text + '\0', 'latin1')
+  return { tag, type: 2, count: value.length, value }
+}
+const short = (tag: number, n: number): Field => {
+  const value = Buffer.alloc(4)
+  value.writeUInt16LE(n)
+  return { tag, type: 3, count: 1, value }
+}
+const long = (tag: number, n: number): Field => {
+  const value = Buffer.alloc(4)
+  value.writeUInt32LE(n)
+  return { tag, type: 4, count: 1, value }
+}
+const rationals = (tag: number, values: [number, number][]): Field => {
+  const value = Buffer.alloc(values.length * 8)
+  values.forEach(([numerator, denominator], i) => {
+    value.writeUInt32LE(numerator, i * 8)
+    value.writeUInt32LE(denominator, i * 8 + 4)
+  })
+  return { tag, type: 5, count: values.length, value }
+}
+
+// Lays out one IFD at `offset`, with values that don't fit inline stored right after it
+function ifd(fields: Field[], offset: number): Buffer {
+  const table = Buffer.alloc(2 + fields.length * 12 + 4)
+  const data: Buffer[] = []
+  let dataOffset = offset + table.length
+  table.writeUInt16LE(fields.length)
+
+  fields.forEach((field, i) => {
+    const entry = 2 + i * 12
+    table.writeUInt16LE(field.tag, entry)
+    table.writeUInt16LE(field.type, entry + 2)
+    table.writeUInt32LE(field.count, entry + 4)
+    if (field.value.length <= 4) {
+      field.value.copy(table, entry + 8)
+    } else {
+      table.writeUInt32LE(dataOffset, entry + 8)
+      data.push(field.value)
+      dataOffset += field.value.length
+    }
+  })
+
+  return Buffer.concat([table, ...data])
+}
+
+function exifWithGps(): Buffer {
+  const header = Buffer.from('Exif\0\0II\x2a\0\x08\0\0\0', 'latin1')
+  const gps = [
+    ascii(1, 'N'),
+    rationals(2, [[51, 1], [30, 1], [0, 1]]),
+    ascii(3, 'W'),
+    rationals(4, [[0, 1], [7, 1], [3960, 100]])
+  ]
+  const ifd0Fields = [
+    ascii(0x010f, 'Canon'),
+    short(0x0112, 6),
+    ascii(0x013b, 'Jane Doe'),
+    ascii(0x8298, '(c) 2024 Jane Doe'),
+    long(0x8825, 0)
+  ]
+  // Size IFD0 once to learn where the GPS IFD goes, then point at it
+  const gpsOffset = 8 + ifd(ifd0Fields, 8).length
+  ifd0Fields[4] = long(0x8825, gpsOffset)
+
+  return Buffer.concat([header, ifd(ifd0Fields, 8), ifd(gps, gpsOffset)])
+}
+
+describe('Metadata parser', () => {
+  it('should read IFD0 fields and the GPS position', () => {
+    const exif = readExif(exifWithGps())!
+
+    expect(exif.make).toBe('Canon')
+    expect(exif.orientation).toBe(6)
+    expect(exif.artist).toBe('Jane Doe')
+    expect(exif.copyright).toBe('(c) 2024 Jane Doe')
+    expect(exif.gps!.latitude).toBeCloseTo(51.5)
+    expect(exif.gps!.longitude).toBeCloseTo(-0.1276667)
+  })
+
+  it('should return null for data that is not EXIF', () => {
+    expect(readExif(Buffer.from('not exif at all'))).toBeNull()
+  })
+
+  it('should read the description of a v2 ICC profile', () => {
+    const text = Buffer.from('Display P3\0', 'latin1')
+    const profile = Buffer.alloc(144 + 12 + text.length)
+    profile.write('acsp', 36, 'latin1')
+    profile.writeUInt32BE(1, 128)
+    profile.write('desc', 132, 'latin1')
+    profile.writeUInt32BE(144, 136)
+    profile.writeUInt32BE(12 + text.length, 140)
+    profile.write('desc', 144, 'latin1')
+    profile.writeUInt32BE(text.length, 152)
+    text.copy(profile, 156)
+
+    expect(readIccDescription(profile)).toBe('Display P3')
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+// The native sharp binary isn't needed to check the request handling: every
+// pipeline reports the current probe and encodes to the current output
+const { sharpFake } = vi.hoisted(() => ({
+  sharpFake: {
+    metadata: {} as Record<string, unknown>,
+    output: Buffer.alloc(0)
+  }
+}))
+
+vi.mock('sharp', () => {
+  const pipeline = (): unknown => new Proxy({}, {
+    get: (target, name) => {
+      if (name === 'then') return undefined
+      if (name === 'metadata') return async () => sharpFake.metadata
+      if (name === 'toBuffer') return async () => sharpFake.output
+      return () => pipeline()
+    }
+  })
+  return { default: Object.assign(pipeline, { kernel: {}, strategy: {} }) }
+})
+
+const ANIMATED_GIF = {
+  format: 'gif',
+  width: 10,
+  height: 30,
+  pageHeight: 10,
+  pages: 3,
+  delay: [100, 100, 100],
+  loop: 0,
+  hasAlpha: true
+}
+
+const STILL_PNG = { format: 'png', width: 10, height: 10, hasAlpha: false }
+
+import { POST } from '../app/api/optimize/route'
+
+const UPLOAD = Buffer.from('fifteen bytes..')
+
+function optimizeRequest(fields: Record<string, string>) {
+  const formData = new FormData()
+  formData.append('image', new File([UPLOAD], 'upload.img'))
+  for (const [name, value] of Object.entries(fields)) formData.append(name, value)
+  return new NextRequest('http://localhost:3000/api/optimize', { method: 'POST', body: formData })
+}
+
+describe('Optimize API', () => {
+  describe('POST /api/optimize', () => {
+    it('should keep an animation sent with autoOrient when there is nothing to orient', async () => {
+      sharpFake.metadata = ANIMATED_GIF
+      sharpFake.output = Buffer.from('encoded')
+      const response = await POST(optimizeRequest({ format: 'webp', autoOrient: 'true', allowLarger: 'true' }))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Animation')).toBe('preserved')
+    })
+
+    it('should refuse to crop an animation', async () => {
+      sharpFake.metadata = ANIMATED_GIF
+      const response = await POST(optimizeRequest({ format: 'webp', crop: '0,0,5,5' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toMatch(/not supported for animated output/)
+    })
+
+    it('should keep an untouched original that already fits the target size', async () => {
+      sharpFake.metadata = STILL_PNG
+      sharpFake.output = Buffer.alloc(UPLOAD.length * 2)
+
+      const response = await POST(optimizeRequest({ format: 'webp', targetSize: '1000' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ result: 'original-kept', originalSize: UPLOAD.length, smallestSize: UPLOAD.length * 2 })
+    })
+
+    it('should still refuse a target size the original misses', async () => {
+      sharpFake.metadata = STILL_PNG
+      sharpFake.output = Buffer.alloc(UPLOAD.length * 2)
+
+      const response = await POST(optimizeRequest({ format: 'webp', targetSize: '10' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.smallestSize).toBe(UPLOAD.length * 2)
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+
+const MB = 1024 * 1024
+
+async function loadConfig(env: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+  vi.resetModules()
+  return import('../lib/server-config')
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('serverConfig', () => {
+  it('falls back to the defaults', async () => {
+    const { serverConfig, MAX_UPLOAD_SIZE } = await loadConfig({})
+    expect(serverConfig.maxImageSize).toBe(50 * MB)
+    expect(serverConfig.maxImageDimension).toBe(8000)
+    expect(serverConfig.uploadLimits).toEqual({ audio: 200 * MB, video: 500 * MB, image: 10 * MB })
+    expect(serverConfig.imageTimeoutMs).toBe(110_000)
+    expect(MAX_UPLOAD_SIZE).toBe(500 * MB)
+  })
+
+  it('reads overrides from the environment', async () => {
+    const { serverConfig, MAX_UPLOAD_SIZE } = await loadConfig({
+      MAX_IMAGE_SIZE_MB: '20',
+      MAX_IMAGE_DIMENSION: '4096',
+      MAX_AUDIO_UPLOAD_MB: '1000',
+    })
+    expect(serverConfig.maxImageSize).toBe(20 * MB)
+    expect(serverConfig.maxImageDimension).toBe(4096)
+    expect(MAX_UPLOAD_SIZE).toBe(1000 * MB)
+  })
+
+  it('reads queue sizes as whole numbers', async () => {
+    const { serverConfig } = await loadConfig({ MAX_CONCURRENT_SHARP_JOBS: '3.7', MAX_QUEUED_SHARP_JOBS: '0.5' })
+    expect(serverConfig.queues.sharp).toEqual({ maxConcurrent: 3, maxQueued: 20 })
+  })
+
+  it('ignores values that are not positive numbers', async () => {
+    const { serverConfig } = await loadConfig({ MAX_IMAGE_SIZE_MB: 'lots', MAX_IMAGE_DIMENSION: '-1' })
+    expect(serverConfig.maxImageSize).toBe(50 * MB)
+    expect(serverConfig.maxImageDimension).toBe(8000)
+  })
+
+  it('publishes only the limits browsers check', async () => {
+    const { publicConfig } = await loadConfig({})
+    expect(Object.keys(publicConfig()).sort()).toEqual(['maxImageDimension', 'maxImageSize', 'maxWatermarkLogoSize', 'uploadLimits'])
+  })
+})
+
+describe('fileTooLargeMessage', () => {
+  it('names the limit and, when given, the kind of file', async () => {
+    const { fileTooLargeMessage } = await loadConfig({})
+    expect(fileTooLargeMessage(50 * MB)).toBe('File too large. Maximum size is 50MB')
+    expect(fileTooLargeMessage(500 * MB, 'video')).toBe('File too large. Maximum size for video is 500MB')
+    expect(fileTooLargeMessage(2.5 * MB)).toBe('File too large. Maximum size is 2.5MB')
+  })
+})
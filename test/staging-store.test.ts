@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import {
+  STAGING_DIR,
+  stagingPath,
+  stagedFileName,
+  stagedInputPath,
+  uploadKindOf,
+  stagingOutputPath,
+  normalizeExtension,
+  StagingError
+} from '../lib/staging-store'
+
+const UPLOAD_ID = '3f2b8c1e-9a4d-4e6f-8b2a-1c5d7e9f0a3b'
+
+describe('Staging store', () => {
+  describe('stagingPath', () => {
+    it('should resolve staged names inside the staging directory', () => {
+      expect(stagingPath(`${UPLOAD_ID}.mp4`)).toBe(`${STAGING_DIR}/${UPLOAD_ID}.mp4`)
+    })
+
+    it('should reject names the staging store did not issue', () => {
+      for (const name of ['abc.mp4', 'systemd-private.sock', 'npm-1234.log']) {
+        expect(() => stagingPath(name)).toThrow(StagingError)
+      }
+    })
+
+    it('should reject names that would escape the staging directory', () => {
+      for (const name of ['../etc/passwd', '/etc/passwd', 'a/b.mp4', '..', '.hidden', '']) {
+        expect(() => stagingPath(name)).toThrow(StagingError)
+      }
+    })
+  })
+
+  describe('stagedFileName', () => {
+    it('should issue a random name that keeps a whitelisted extension', () => {
+      const first = stagedFileName('holiday.MOV', 'video')
+      const second = stagedFileName('holiday.MOV', 'video')
+
+      expect(first).toMatch(/^[0-9a-f-]{36}\.mov$/)
+      expect(first).not.toBe(second)
+    })
+
+    it('should reject extensions outside the whitelist', () => {
+      expect(() => stagedFileName('payload.sh')).toThrow(StagingError)
+      expect(() => stagedFileName('song.mp3', 'video')).toThrow(StagingError)
+    })
+  })
+
+  describe('stagedInputPath', () => {
+    it('should accept an issued upload name of the expected kind', () => {
+      expect(stagedInputPath(`${UPLOAD_ID}.mov`, 'video')).toBe(`${STAGING_DIR}/${UPLOAD_ID}.mov`)
+    })
+
+    it('should reject outputs, uploads in progress and other kinds', () => {
+      for (const name of [`output-${UPLOAD_ID}.mp4`, `${UPLOAD_ID}.part`, `${UPLOAD_ID}.upload.json`, `${UPLOAD_ID}.mp3`, UPLOAD_ID]) {
+        expect(() => stagedInputPath(name, 'video')).toThrow(StagingError)
+      }
+    })
+  })
+
+  describe('uploadKindOf', () => {
+    it('should tell the kind from the extension', () => {
+      expect(uploadKindOf('song.MP3')).toBe('audio')
+      expect(uploadKindOf('photo.heic')).toBe('image')
+      expect(() => uploadKindOf('payload.sh')).toThrow(StagingError)
+    })
+
+    it('should give an extension shared by several kinds the larger limit', () => {
+      expect(uploadKindOf('clip.webm')).toBe('video')
+    })
+  })
+
+  describe('stagingOutputPath', () => {
+    it('should only accept known output formats', () => {
+      expect(stagingOutputPath('webm', 'video')).toMatch(/\/output-[0-9a-f-]{36}\.webm$/)
+      expect(() => stagingOutputPath('../../x', 'audio')).toThrow(StagingError)
+    })
+
+    it('should accept archives as outputs but not as uploads', () => {
+      expect(stagingOutputPath('zip', 'archive')).toMatch(/\/output-[0-9a-f-]{36}\.zip$/)
+      expect(() => normalizeExtension('bundle.zip')).toThrow(StagingError)
+    })
+  })
+
+  it('should lower-case extensions', () => {
+    expect(normalizeExtension('IMG.JPG', 'image')).toBe('jpg')
+  })
+})
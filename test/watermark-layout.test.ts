@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { placeWatermark, textWatermarkSvg, watermarkMargin } from '../lib/watermark-layout'
+
+describe('placeWatermark', () => {
+  it('keeps corner marks a margin away from the edges', () => {
+    const margin = watermarkMargin(1000, 500)
+    expect(margin).toBe(15)
+    expect(placeWatermark(1000, 500, 200, 50, 'top-left')).toEqual({ left: 15, top: 15 })
+    expect(placeWatermark(1000, 500, 200, 50, 'bottom-right')).toEqual({ left: 785, top: 435 })
+  })
+
+  it('centres along the axes a position leaves open', () => {
+    expect(placeWatermark(1000, 500, 200, 50, 'centre')).toEqual({ left: 400, top: 225 })
+    expect(placeWatermark(1000, 500, 200, 50, 'bottom')).toEqual({ left: 400, top: 435 })
+    expect(placeWatermark(1000, 500, 200, 50, 'left')).toEqual({ left: 15, top: 225 })
+  })
+
+  it('never places a mark above or left of the image', () => {
+    expect(placeWatermark(100, 100, 100, 100, 'bottom-right')).toEqual({ left: 0, top: 0 })
+  })
+})
+
+describe('textWatermarkSvg', () => {
+  it('escapes the text and colour', () => {
+    const svg = textWatermarkSvg('<Tom & "Jerry">', 300, '#fff')
+    expect(svg).toContain('&lt;Tom &amp; &quot;Jerry&quot;&gt;')
+    expect(svg).not.toContain('<Tom')
+  })
+
+  it('is exactly the requested width', () => {
+    expect(textWatermarkSvg('© Studio', 240, '#000000')).toContain('width="240"')
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { crc32 } from 'zlib'
+import { createZip } from '../lib/zip-archive'
+
+// Walks the central directory the way an unzip tool would
+function readZip(zip: Buffer): { name: string; data: Buffer; crc: number }[] {
+  const end = zip.length - 22
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50)
+
+  const count = zip.readUInt16LE(end + 10)
+  let position = zip.readUInt32LE(end + 16)
+  const entries = []
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50)
+    const crc = zip.readUInt32LE(position + 16)
+    const size = zip.readUInt32LE(position + 20)
+    const nameLength = zip.readUInt16LE(position + 28)
+    const localOffset = zip.readUInt32LE(position + 42)
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength)
+
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50)
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26)
+    entries.push({ name, data: zip.subarray(dataStart, dataStart + size), crc })
+    position += 46 + nameLength
+  }
+
+  return entries
+}
+
+describe('Zip archive', () => {
+  it('should store every entry so it can be read back', () => {
+    const files = [
+      { name: 'hero-320.webp', data: Buffer.from('webp bytes') },
+      { name: 'hero-320.jpg', data: Buffer.alloc(4096, 7) },
+      { name: 'picture.html', data: Buffer.from('<picture></picture>\n') }
+    ]
+
+    const entries = readZip(createZip(files))
+
+    expect(entries.map((entry) => entry.name)).toEqual(files.map((file) => file.name))
+    entries.forEach((entry, i) => {
+      expect(entry.data.equals(files[i].data)).toBe(true)
+      expect(entry.crc).toBe(crc32(files[i].data))
+    })
+  })
+
+  it('should produce a valid empty archive', () => {
+    expect(readZip(createZip([]))).toEqual([])
+  })
+})